@@ -0,0 +1,216 @@
+import { createHmac, generateKeyPairSync, sign, KeyObject } from 'node:crypto';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import { createPassportAuth, createSessionAuth, createBearerJwtAuth } from '../src/auth';
+import { createVortex } from '../src/instance';
+
+function mockReq(overrides: Record<string, any> = {}) {
+  return { headers: {}, ...overrides } as any;
+}
+
+const res = {} as any;
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signHs256(claims: Record<string, unknown>, secret: string): string {
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  return `${input}.${createHmac('sha256', secret).update(input).digest('base64url')}`;
+}
+
+function signRs256(claims: Record<string, unknown>, key: KeyObject, kid: string): string {
+  const input = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(claims)}`;
+  return `${input}.${sign('sha256', Buffer.from(input), key).toString('base64url')}`;
+}
+
+function bearer(token: string) {
+  return mockReq({ headers: { authorization: `Bearer ${token}` } });
+}
+
+function mockRes() {
+  const res: any = { locals: {} };
+  res.setHeader = jest.fn();
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+const toUser = (claims: { sub: string; email: string }) => ({ userId: claims.sub, userEmail: claims.email });
+
+describe('createPassportAuth', () => {
+  it('maps req.user and treats unauthenticated requests as anonymous', async () => {
+    const authenticateUser = createPassportAuth((user: { id: string; email: string }) => ({
+      userId: user.id,
+      userEmail: user.email,
+    }));
+
+    await expect(
+      authenticateUser(mockReq({ user: { id: 'u1', email: 'a@example.com' }, isAuthenticated: () => true }), res)
+    ).resolves.toEqual({ userId: 'u1', userEmail: 'a@example.com' });
+    await expect(authenticateUser(mockReq({ isAuthenticated: () => false }), res)).resolves.toBeNull();
+    await expect(authenticateUser(mockReq(), res)).resolves.toBeNull();
+  });
+});
+
+describe('createSessionAuth', () => {
+  it('maps the session', async () => {
+    const authenticateUser = createSessionAuth((session: { userId?: string }) =>
+      session.userId ? { userId: session.userId } : null
+    );
+
+    await expect(authenticateUser(mockReq({ session: { userId: 'u1' } }), res)).resolves.toEqual({ userId: 'u1' });
+    await expect(authenticateUser(mockReq({ session: {} }), res)).resolves.toBeNull();
+    await expect(authenticateUser(mockReq(), res)).resolves.toBeNull();
+  });
+});
+
+describe('createBearerJwtAuth', () => {
+  const now = Math.floor(Date.now() / 1000);
+  const claims = { sub: 'u1', email: 'a@example.com', iss: 'https://auth.example.com/', aud: 'api', exp: now + 60 };
+
+  it('verifies tokens signed with a shared secret', async () => {
+    const authenticateUser = createBearerJwtAuth({ secret: 'shh', issuer: 'https://auth.example.com/', map: toUser });
+
+    await expect(authenticateUser(bearer(signHs256(claims, 'shh')), res)).resolves.toEqual({
+      userId: 'u1',
+      userEmail: 'a@example.com',
+    });
+    await expect(authenticateUser(bearer(signHs256(claims, 'wrong')), res)).resolves.toBeNull();
+    await expect(authenticateUser(bearer(signHs256({ ...claims, exp: now - 60 }, 'shh')), res)).resolves.toBeNull();
+    await expect(authenticateUser(bearer(signHs256({ ...claims, iss: 'evil' }, 'shh')), res)).resolves.toBeNull();
+    await expect(authenticateUser(mockReq(), res)).resolves.toBeNull();
+  });
+
+  it('rejects tokens from the moment they expire', async () => {
+    const authenticateUser = createBearerJwtAuth({ secret: 'shh', map: toUser });
+    const token = signHs256(claims, 'shh');
+    const clock = jest.spyOn(Date, 'now');
+    try {
+      clock.mockReturnValue(claims.exp * 1000 - 1);
+      await expect(authenticateUser(bearer(token), res)).resolves.not.toBeNull();
+      clock.mockReturnValue(claims.exp * 1000);
+      await expect(authenticateUser(bearer(token), res)).resolves.toBeNull();
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  it('requires an expiry unless requireExpiry is off', async () => {
+    const { exp: _exp, ...withoutExpiry } = claims;
+    const token = signHs256(withoutExpiry, 'shh');
+
+    await expect(createBearerJwtAuth({ secret: 'shh', map: toUser })(bearer(token), res)).resolves.toBeNull();
+    await expect(
+      createBearerJwtAuth({ secret: 'shh', requireExpiry: false, map: toUser })(bearer(token), res)
+    ).resolves.toEqual({ userId: 'u1', userEmail: 'a@example.com' });
+  });
+
+  describe('with a JWKS file', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    let dir: string;
+    let file: string;
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'vortex-jwks-'));
+      file = join(dir, 'jwks.json');
+      writeFileSync(file, JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1' }] }));
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('verifies tokens against the key with a matching kid', async () => {
+      const authenticateUser = createBearerJwtAuth({ jwks: { file }, audience: ['api', 'other'], map: toUser });
+
+      await expect(authenticateUser(bearer(signRs256(claims, privateKey, 'key-1')), res)).resolves.toEqual({
+        userId: 'u1',
+        userEmail: 'a@example.com',
+      });
+      await expect(authenticateUser(bearer(signRs256(claims, privateKey, 'key-2')), res)).resolves.toBeNull();
+      await expect(
+        authenticateUser(bearer(signRs256({ ...claims, aud: 'elsewhere' }, privateKey, 'key-1')), res)
+      ).resolves.toBeNull();
+    });
+
+    it('rejects HMAC tokens signed with the public key', async () => {
+      const authenticateUser = createBearerJwtAuth({ jwks: { file }, map: toUser });
+      const pem = publicKey.export({ format: 'pem', type: 'spki' }).toString();
+
+      await expect(authenticateUser(bearer(signHs256(claims, pem)), res)).resolves.toBeNull();
+    });
+  });
+
+  it('requires a secret or jwks', () => {
+    expect(() => createBearerJwtAuth({ map: toUser })).toThrow('requires a secret or jwks');
+  });
+});
+
+describe('vortexAuth', () => {
+  it('authenticates once per request and shares the user with handlers', async () => {
+    const authenticateUser = jest.fn(async () => ({ userId: 'u1' }));
+    const vortex = createVortex({ apiKey: 'test-key', authenticateUser });
+    const req = mockReq({ method: 'POST' });
+    const res = mockRes();
+    const next = jest.fn();
+
+    await vortex.auth()(req, res, next);
+    expect(next).toHaveBeenCalled();
+    expect(res.locals.vortexUser).toEqual({ userId: 'u1' });
+
+    // The user has no email, so the JWT route rejects it without authenticating again
+    await vortex.handlers.handleJwtGeneration(req, res);
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(authenticateUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses a user already set by earlier middleware', async () => {
+    const authenticateUser = jest.fn(async () => null);
+    const vortex = createVortex({ apiKey: 'test-key', authenticateUser });
+    const res = mockRes();
+    res.locals.vortexUser = { userId: 'u1', userEmail: 'a@example.com' };
+
+    await expect(vortex.authenticateRequest(mockReq(), res)).resolves.toEqual(res.locals.vortexUser);
+    expect(authenticateUser).not.toHaveBeenCalled();
+  });
+
+  it('authenticates separately for each instance', async () => {
+    const publicVortex = createVortex({ apiKey: 'test-key', authenticateUser: async () => ({ userId: 'member' }) });
+    const adminVortex = createVortex({ apiKey: 'test-key', authenticateUser: async () => null });
+    const req = mockReq();
+    const res = mockRes();
+
+    await expect(publicVortex.authenticateRequest(req, res)).resolves.toEqual({ userId: 'member' });
+    await expect(adminVortex.authenticateRequest(req, res)).resolves.toBeNull();
+    await expect(publicVortex.authenticateRequest(req, res)).resolves.toEqual({ userId: 'member' });
+  });
+
+  it('restores the request config once it is done', async () => {
+    const vortex = createVortex({ apiKey: 'test-key', authenticateUser: async () => null });
+    const res = mockRes();
+    const next = jest.fn(() => {
+      expect(res.locals.vortexConfigProvider).toBeUndefined();
+    });
+
+    await vortex.auth()(mockReq(), res, next);
+    await vortex.auth({ required: true })(mockReq(), res, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(res.locals.vortexConfigProvider).toBeUndefined();
+  });
+
+  it('responds 401 to anonymous requests when required', async () => {
+    const vortex = createVortex({ apiKey: 'test-key', authenticateUser: async () => null });
+    const res = mockRes();
+    const next = jest.fn();
+
+    await vortex.auth({ required: true })(mockReq(), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.locals.vortexUser).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import crypto from 'node:crypto';
+import { VortexWebhooks } from '@teamvortexsoftware/vortex-node-22-sdk';
+import { createVortex } from '../src/instance';
+import { MemoryResponseCacheStore, getInvitationTags } from '../src/cache';
+import { createVortexWebhookHandler } from '../src/handlers/webhooks';
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function mockReq(overrides: Record<string, any> = {}) {
+  return { method: 'GET', headers: {}, params: {}, query: {}, body: {}, ...overrides } as any;
+}
+
+function mockRes() {
+  const res: any = { locals: {} };
+  res.setHeader = jest.fn();
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  res.end = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+const invitation = {
+  id: 'inv_1',
+  scopes: [{ scopeId: 'team-1', groupId: 'team-1', type: 'team' }],
+  target: [{ type: 'email', value: 'teammate@acme.com' }],
+};
+
+function setup() {
+  const fetchMock = jest.fn(async (url: string, _init?: RequestInit) =>
+    jsonResponse(url.includes('/invitations/inv_1') ? invitation : { invitations: [invitation] })
+  );
+  const vortex = createVortex({
+    apiKey: 'test-key',
+    apiBaseUrl: 'http://localhost:4000',
+    client: { fetch: fetchMock as unknown as typeof fetch },
+    authenticateUser: async () => ({ userId: 'user-1', adminScopes: ['team-1'] }),
+    responseCache: { store: new MemoryResponseCacheStore() },
+  });
+  const getCalls = () => fetchMock.mock.calls.filter(([, init]) => init?.method === 'GET').length;
+  return { vortex, fetchMock, getCalls };
+}
+
+const scopeReq = () => mockReq({ params: { scopeType: 'team', scope: 'team-1' } });
+
+describe('responseCache', () => {
+  it('serves repeated reads from the cache', async () => {
+    const { vortex, getCalls } = setup();
+
+    await vortex.handlers.handleGetInvitationsByScope(scopeReq(), mockRes());
+    const res = mockRes();
+    await vortex.handlers.handleGetInvitationsByScope(scopeReq(), res);
+
+    expect(getCalls()).toBe(1);
+    expect(res.json).toHaveBeenCalledWith({ invitations: [invitation] });
+  });
+
+  it('answers 304 when If-None-Match matches the ETag', async () => {
+    const { vortex } = setup();
+    const first = mockRes();
+    await vortex.handlers.handleGetInvitation(mockReq({ params: { invitationId: 'inv_1' } }), first);
+    const etag = first.setHeader.mock.calls.find(([name]: [string]) => name === 'ETag')[1];
+
+    const res = mockRes();
+    await vortex.handlers.handleGetInvitation(
+      mockReq({ params: { invitationId: 'inv_1' }, headers: { 'if-none-match': etag } }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(304);
+    expect(res.json).not.toHaveBeenCalled();
+  });
+
+  it('invalidates scope lists when an invitation in them is revoked', async () => {
+    const { vortex, getCalls } = setup();
+
+    await vortex.handlers.handleGetInvitationsByScope(scopeReq(), mockRes());
+    await vortex.handlers.handleRevokeInvitation(
+      mockReq({ method: 'DELETE', params: { invitationId: 'inv_1' } }),
+      mockRes()
+    );
+    const callsBefore = getCalls();
+    await vortex.handlers.handleGetInvitationsByScope(scopeReq(), mockRes());
+
+    expect(getCalls()).toBe(callsBefore + 1);
+  });
+
+  it('invalidates entries for matching webhook events', async () => {
+    const { vortex, getCalls } = setup();
+    const secret = 'whsec_test';
+    const webhookHandler = createVortexWebhookHandler(
+      new VortexWebhooks({ secret }),
+      {},
+      { responseCache: vortex.getConfig }
+    );
+
+    await vortex.handlers.handleGetInvitationsByScope(scopeReq(), mockRes());
+    const payload = JSON.stringify({
+      id: 'evt_1',
+      type: 'invitation.accepted',
+      timestamp: '2026-02-25T12:00:00Z',
+      accountId: 'acc_1',
+      environmentId: null,
+      sourceTable: 'invitations',
+      operation: 'update',
+      data: { invitationId: 'inv_1' },
+    });
+    await webhookHandler(
+      mockReq({
+        method: 'POST',
+        headers: { 'x-vortex-signature': crypto.createHmac('sha256', secret).update(payload).digest('hex') },
+        body: payload,
+      }),
+      mockRes(),
+      jest.fn() as any
+    );
+    await vortex.handlers.handleGetInvitationsByScope(scopeReq(), mockRes());
+
+    expect(getCalls()).toBe(2);
+  });
+});
+
+describe('getInvitationTags', () => {
+  it('tags scopes by type and ID and skips scopes without an ID', () => {
+    const tags = getInvitationTags({
+      id: 'inv_1',
+      scopes: [
+        { scopeId: 'team-1', groupId: 'team-1', type: 'team' },
+        { type: 'organization' },
+      ],
+    } as any);
+
+    expect(tags).toEqual(['invitation:inv_1', 'scope:team:team-1']);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { VortexClient, getVortexClient } from '../src/client';
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+describe('VortexClient', () => {
+  it('sends requests to the configured base URL', async () => {
+    const fetchMock = jest.fn(async (_url: string, _init?: RequestInit) =>
+      jsonResponse({ id: 'inv_1' })
+    );
+    const baseUrl = process.env.VORTEX_API_BASE_URL;
+    const client = new VortexClient('test-key', 'http://localhost:4000/', {
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    await client.getInvitation('inv_1');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:4000/api/v1/invitations/inv_1');
+    expect((init?.headers as Record<string, string>)['x-api-key']).toBe('test-key');
+    expect((init?.headers as Record<string, string>)['x-vortex-sdk-version']).toMatch(/^\d+\.\d+\.\d+/);
+    expect(process.env.VORTEX_API_BASE_URL).toBe(baseUrl);
+  });
+
+  it('accepts a fetch that wraps the global fetch', async () => {
+    const globalFetch = globalThis.fetch;
+    const globalMock = jest.fn(async (_url: string, _init?: RequestInit) => jsonResponse({ id: 'inv_1' }));
+    globalThis.fetch = globalMock as unknown as typeof fetch;
+    try {
+      const client = new VortexClient('test-key', 'http://localhost:4000', {
+        fetch: (input, init) => globalThis.fetch(input, init),
+      });
+
+      await expect(client.getInvitation('inv_1')).resolves.toMatchObject({ id: 'inv_1' });
+      expect(globalMock).toHaveBeenCalledTimes(1);
+    } finally {
+      globalThis.fetch = globalFetch;
+    }
+  });
+
+  it('keeps the base URL of concurrent clients apart', async () => {
+    const fetchMock = jest.fn(
+      (url: string, _init?: RequestInit) =>
+        new Promise<Response>((resolve) => setTimeout(() => resolve(jsonResponse({ id: url })), 10))
+    );
+    const options = { fetch: fetchMock as unknown as typeof fetch };
+    const a = new VortexClient('key-a', 'http://a.example.com', options);
+    const b = new VortexClient('key-b', 'http://b.example.com', options);
+
+    await Promise.all([a.getInvitation('inv_1'), b.getInvitation('inv_2'), a.getInvitation('inv_3')]);
+
+    const sent = fetchMock.mock.calls.map(([url, init]) => [url, (init?.headers as Record<string, string>)['x-api-key']]);
+    expect(sent).toEqual([
+      ['http://a.example.com/api/v1/invitations/inv_1', 'key-a'],
+      ['http://b.example.com/api/v1/invitations/inv_2', 'key-b'],
+      ['http://a.example.com/api/v1/invitations/inv_3', 'key-a'],
+    ]);
+  });
+
+  it('includes the upstream status in errors', async () => {
+    const client = new VortexClient('test-key', 'http://localhost:4000', {
+      fetch: (async () => jsonResponse({ message: 'nope' }, 404)) as unknown as typeof fetch,
+    });
+
+    await expect(client.getInvitation('missing')).rejects.toThrow('404');
+  });
+
+  it('aborts requests that exceed the timeout', async () => {
+    const client = new VortexClient('test-key', 'http://localhost:4000', {
+      timeoutMs: 10,
+      fetch: ((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        })) as unknown as typeof fetch,
+    });
+
+    await expect(client.getInvitation('slow')).rejects.toThrow('timed out after 10ms');
+  });
+});
+
+describe('getVortexClient', () => {
+  it('reuses one client per configuration', () => {
+    const options = { timeoutMs: 1000 };
+    const a = getVortexClient({ apiKey: 'key-a', client: options });
+
+    expect(getVortexClient({ apiKey: 'key-a', client: options })).toBe(a);
+    expect(getVortexClient({ apiKey: 'key-b', client: options })).not.toBe(a);
+    expect(getVortexClient({ apiKey: 'key-a', apiBaseUrl: 'http://localhost', client: options })).not.toBe(a);
+  });
+});
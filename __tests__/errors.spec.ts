@@ -0,0 +1,189 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  VortexApiError,
+  VortexHttpError,
+  VortexNotFoundError,
+  toVortexHttpError,
+  vortexErrorHandler,
+} from '../src/errors';
+import { createVortex } from '../src/instance';
+import { createErrorResponse } from '../src/utils';
+
+function mockRes() {
+  const res: any = { locals: {}, headersSent: false };
+  res.setHeader = jest.fn();
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+describe('toVortexHttpError', () => {
+  it('maps upstream statuses to HTTP errors', () => {
+    expect(toVortexHttpError(new VortexApiError(404, 'Not Found', '{"message":"Invitation not found"}')))
+      .toMatchObject({ status: 404, code: 'not_found', message: 'Invitation not found' });
+    expect(toVortexHttpError(new VortexApiError(409, 'Conflict', ''))).toMatchObject({
+      status: 409,
+      code: 'conflict',
+    });
+    expect(
+      toVortexHttpError(new VortexApiError(422, 'Unprocessable', '{"errors":[{"field":"email"}]}'))
+    ).toMatchObject({ status: 400, code: 'validation_error', details: [{ field: 'email' }] });
+    expect(toVortexHttpError(new VortexApiError(500, 'Server Error', 'stack trace'))).toMatchObject({
+      status: 502,
+      code: 'upstream_error',
+    });
+    expect(toVortexHttpError(new VortexApiError(401, 'Unauthorized', ''))).toMatchObject({
+      status: 502,
+    });
+  });
+
+  it('maps errors thrown by the Node SDK client', () => {
+    const error = new Error('Vortex API request failed: 404 Not Found - {}');
+    expect(toVortexHttpError(error)).toMatchObject({ status: 404, code: 'not_found' });
+  });
+
+  it('hides details of unexpected errors', () => {
+    const error = toVortexHttpError(new Error('connection string leaked'));
+    expect(error).toMatchObject({ status: 500, code: 'internal_error' });
+    expect(error.message).not.toContain('leaked');
+  });
+});
+
+describe('vortexErrorHandler', () => {
+  it('renders the error envelope with the request ID', () => {
+    const res = mockRes();
+    const req: any = { headers: { 'x-request-id': 'req-123' } };
+
+    vortexErrorHandler()(new VortexNotFoundError('Invitation not found'), req, res, jest.fn());
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.json).toHaveBeenCalledWith({
+      error: { code: 'not_found', message: 'Invitation not found', requestId: 'req-123' },
+    });
+  });
+
+  it('defers to Express when the response has already started', () => {
+    const res = mockRes();
+    res.headersSent = true;
+    const next = jest.fn();
+    const error = new Error('late failure');
+
+    vortexErrorHandler()(error, { headers: {} } as any, res, next);
+
+    expect(next).toHaveBeenCalledWith(error);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+});
+
+describe('onError hook', () => {
+  it('can replace the error sent by a handler', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const onError = jest.fn(() => new VortexHttpError(503, 'Try again later'));
+    const vortex = createVortex({
+      apiKey: 'invalid-key',
+      authenticateUser: async () => ({ userId: 'user-1', userEmail: 'user@example.com' }),
+      onError,
+    });
+    const res = mockRes();
+
+    await vortex.handlers.handleJwtGeneration({ method: 'POST', headers: {} } as any, res);
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ status: 500 }), expect.anything(), res);
+    expect(res.status).toHaveBeenCalledWith(503);
+    expect(res.json).toHaveBeenCalledWith({
+      error: expect.objectContaining({ code: 'service_unavailable', message: 'Try again later' }),
+    });
+    consoleError.mockRestore();
+  });
+});
+
+describe('onError hook for direct responses', () => {
+  it('receives access denials sent by handlers', async () => {
+    const onError = jest.fn(() => new VortexHttpError(404, 'Not found'));
+    const vortex = createVortex({
+      apiKey: 'test-key',
+      authenticateUser: async () => ({ userId: 'user-1' }),
+      canAccessInvitationsByScope: async () => false,
+      onError,
+    });
+    const req = { method: 'GET', headers: {}, params: { scopeType: 'team', scope: 'team-1' }, query: {} } as any;
+    const res = mockRes();
+    res.req = req;
+
+    await vortex.handlers.handleGetInvitationsByScope(req, res);
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ status: 403 }), req, res);
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
+
+describe('createErrorResponse', () => {
+  it('keeps sending the legacy error format synchronously', () => {
+    const res = mockRes();
+
+    expect(createErrorResponse(res, 'Admin required', 403)).toBe(res);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Admin required' });
+  });
+});
+
+describe('authentication failures', () => {
+  const req = () => ({ method: 'POST', headers: {}, params: {}, query: {} }) as any;
+  const failingAuth = async () => {
+    throw new Error('session store unreachable');
+  };
+
+  it('responds 503 instead of treating the user as anonymous', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const vortex = createVortex({ apiKey: 'test-key', authenticateUser: failingAuth });
+    const res = mockRes();
+
+    await vortex.handlers.handleJwtGeneration(req(), res);
+
+    expect(res.status).toHaveBeenCalledWith(503);
+    expect(res.json).toHaveBeenCalledWith({
+      error: expect.objectContaining({ code: 'authentication_unavailable' }),
+    });
+    consoleError.mockRestore();
+  });
+
+  it('lets onAuthError continue anonymously or send its own error', async () => {
+    const onAuthError = jest.fn<() => null | VortexHttpError>(() => null);
+    const vortex = createVortex({ apiKey: 'test-key', authenticateUser: failingAuth, onAuthError });
+
+    const anonymous = mockRes();
+    await vortex.handlers.handleJwtGeneration(req(), anonymous);
+    expect(onAuthError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'session store unreachable' }),
+      expect.anything(),
+      anonymous
+    );
+    expect(anonymous.status).toHaveBeenCalledWith(401);
+
+    onAuthError.mockReturnValue(new VortexHttpError(401, 'Session expired'));
+    const replaced = mockRes();
+    await vortex.handlers.handleJwtGeneration(req(), replaced);
+    expect(replaced.json).toHaveBeenCalledWith({
+      error: expect.objectContaining({ code: 'unauthorized', message: 'Session expired' }),
+    });
+  });
+
+  it('responds 401 to anonymous requests before access hooks with strictAuth', async () => {
+    const canAccessInvitationsByScope = jest.fn(async () => true);
+    const vortex = createVortex({
+      apiKey: 'test-key',
+      authenticateUser: async () => null,
+      canAccessInvitationsByScope,
+      strictAuth: true,
+    });
+    const res = mockRes();
+
+    await vortex.handlers.handleGetInvitationsByScope(
+      { ...req(), method: 'GET', params: { scopeType: 'team', scope: 'team-1' } },
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(canAccessInvitationsByScope).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,154 @@
+import { EventEmitter } from 'node:events';
+import { describe, it, expect, jest } from '@jest/globals';
+import type { VortexWebhookEvent } from '@teamvortexsoftware/vortex-node-22-sdk';
+import { createVortex } from '../../src/instance';
+import type { VortexConfig } from '../../src/config';
+import { VortexEventBus } from '../../src/webhook-events';
+
+function mockReq(overrides: Record<string, any> = {}) {
+  return {
+    method: 'GET',
+    headers: {},
+    params: {},
+    query: {},
+    ...overrides,
+  } as any;
+}
+
+function mockRes() {
+  const res: any = new EventEmitter();
+  res.locals = {};
+  res.writableEnded = false;
+  res.setHeader = jest.fn();
+  res.flushHeaders = jest.fn();
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  res.write = jest.fn();
+  return res;
+}
+
+function invitationEvent(id: string, scopeId: string, type: VortexWebhookEvent['type'] = 'invitation.accepted') {
+  return {
+    id,
+    type,
+    timestamp: new Date().toISOString(),
+    accountId: 'acc_1',
+    environmentId: null,
+    sourceTable: 'invitations',
+    operation: 'update',
+    data: { invitationId: `inv_${id}`, scopeId, scopeType: 'team' },
+  } as VortexWebhookEvent;
+}
+
+// Lets the bus stream and the per-connection access checks run
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+function sentEventIds(res: any): string[] {
+  return res.write.mock.calls
+    .map(([chunk]: [string]) => /^id: (.+)$/m.exec(chunk)?.[1])
+    .filter(Boolean);
+}
+
+function createTestVortex(config: Partial<VortexConfig> = {}) {
+  const bus = new VortexEventBus();
+  const vortex = createVortex({
+    apiKey: 'test-key',
+    authenticateUser: async () => ({ userId: 'user-1', adminScopes: ['team-1'] }),
+    canAccessInvitationsByScope: async (_req, _res, _user, resource) => resource.scope === 'team-1',
+    events: { bus, heartbeatMs: 60_000 },
+    ...config,
+  });
+  return { vortex, bus };
+}
+
+describe('handleEventStream', () => {
+  it('streams invitation events for scopes the connection may access', async () => {
+    const { vortex, bus } = createTestVortex();
+    const res = mockRes();
+
+    await vortex.handlers.handleEventStream(mockReq(), res);
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+
+    await bus.publish(invitationEvent('evt_1', 'team-1'));
+    await bus.publish(invitationEvent('evt_2', 'team-2'));
+    await bus.publish({ ...invitationEvent('evt_3', 'team-1'), type: 'member.created' });
+    await flush();
+
+    expect(sentEventIds(res)).toEqual(['evt_1']);
+    expect(res.write).toHaveBeenCalledWith(expect.stringContaining('event: invitation.accepted\n'));
+    res.emit('close');
+  });
+
+  it('only streams events of the user\'s admin scopes without a hook', async () => {
+    const { vortex, bus } = createTestVortex({ canAccessInvitationsByScope: undefined });
+    const res = mockRes();
+
+    await vortex.handlers.handleEventStream(mockReq(), res);
+    await bus.publish(invitationEvent('evt_1', 'team-1'));
+    await bus.publish(invitationEvent('evt_2', 'team-2'));
+    await flush();
+
+    expect(sentEventIds(res)).toEqual(['evt_1']);
+    res.emit('close');
+  });
+
+  it('rejects a scope the user may not access before opening the stream', async () => {
+    const { vortex } = createTestVortex();
+    const res = mockRes();
+
+    await vortex.handlers.handleEventStream(mockReq({ query: { scopeType: 'team', scope: 'team-2' } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.flushHeaders).not.toHaveBeenCalled();
+  });
+
+  it('responds 404 when the event stream is not configured', async () => {
+    const { vortex } = createTestVortex({ events: undefined });
+    const res = mockRes();
+
+    await vortex.handlers.handleEventStream(mockReq(), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('replays events after Last-Event-ID and asks for a resync when it is unknown', async () => {
+    const { vortex, bus } = createTestVortex();
+    const first = mockRes();
+    await vortex.handlers.handleEventStream(mockReq(), first);
+    for (const id of ['evt_1', 'evt_2', 'evt_3']) {
+      await bus.publish(invitationEvent(id, 'team-1'));
+    }
+    await flush();
+    first.emit('close');
+
+    const resumed = mockRes();
+    await vortex.handlers.handleEventStream(mockReq({ headers: { 'last-event-id': 'evt_1' } }), resumed);
+    await flush();
+    expect(sentEventIds(resumed)).toEqual(['evt_2', 'evt_3']);
+    resumed.emit('close');
+
+    const stale = mockRes();
+    await vortex.handlers.handleEventStream(mockReq({ query: { lastEventId: 'evt_0' } }), stale);
+    expect(stale.write).toHaveBeenCalledWith('event: resync\ndata: {}\n\n');
+    stale.emit('close');
+  });
+
+  it('sends heartbeats until the client disconnects', async () => {
+    jest.useFakeTimers();
+    try {
+      const { vortex } = createTestVortex({ events: { bus: new VortexEventBus(), heartbeatMs: 1000 } });
+      const res = mockRes();
+      await vortex.handlers.handleEventStream(mockReq(), res);
+
+      jest.advanceTimersByTime(2000);
+      expect(res.write).toHaveBeenCalledTimes(2);
+      expect(res.write).toHaveBeenCalledWith(': heartbeat\n\n');
+
+      res.emit('close');
+      jest.advanceTimersByTime(2000);
+      expect(res.write).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { createVortex } from '../../src/instance';
+import { createAllowAllAccessControl } from '../../src/config';
+import type { VortexConfig } from '../../src/config';
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function mockReq(overrides: Record<string, any> = {}) {
+  return {
+    method: 'POST',
+    headers: {},
+    params: {},
+    query: {},
+    body: {},
+    ...overrides,
+  } as any;
+}
+
+function mockRes() {
+  const res: any = { locals: {} };
+  res.setHeader = jest.fn();
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+const existingInvitation = {
+  id: 'inv_1',
+  scopes: [{ scopeId: 'team-1', groupId: 'team-1', type: 'team' }],
+  target: [{ type: 'email', value: 'teammate@acme.com' }],
+};
+
+function createTestVortex(config: Partial<VortexConfig> = {}, invitation: unknown = existingInvitation) {
+  const fetchMock = jest.fn(async (_url: string, _init?: RequestInit) => jsonResponse(invitation));
+  const vortex = createVortex({
+    apiKey: 'test-key',
+    apiBaseUrl: 'http://localhost:4000',
+    client: { fetch: fetchMock as unknown as typeof fetch },
+    authenticateUser: async () => ({
+      userId: 'user-1',
+      userEmail: 'owner@acme.com',
+      name: 'Owner',
+      allowedEmailDomains: ['acme.com'],
+      adminScopes: ['team-1'],
+    }),
+    ...config,
+  });
+  return { vortex, fetchMock };
+}
+
+const createBody = {
+  widgetConfigurationId: 'widget-1',
+  target: { type: 'email', value: 'teammate@acme.com' },
+  scopeId: 'team-1',
+  scopeType: 'team',
+};
+
+describe('handleCreateInvitation', () => {
+  it('creates the invitation with the authenticated user as inviter', async () => {
+    const { vortex, fetchMock } = createTestVortex();
+    const res = mockRes();
+
+    await vortex.handlers.handleCreateInvitation(
+      mockReq({ body: { ...createBody, inviter: { userId: 'someone-else' } } }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    const [, init] = fetchMock.mock.calls[0];
+    const sent = JSON.parse(init?.body as string);
+    expect(sent.inviter).toEqual({ userId: 'user-1', userEmail: 'owner@acme.com', name: 'Owner' });
+    expect(sent.target).toEqual(createBody.target);
+  });
+
+  it('rejects email targets outside the allowed domains', async () => {
+    const { vortex, fetchMock } = createTestVortex();
+    const res = mockRes();
+
+    await vortex.handlers.handleCreateInvitation(
+      mockReq({ body: { ...createBody, target: { type: 'email', value: 'someone@other.com' } } }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json.mock.calls[0][0].error.code).toBe('email_domain_not_allowed');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('enforces the email domain policy even when canCreateInvitation allows everything', async () => {
+    const { vortex, fetchMock } = createTestVortex(createAllowAllAccessControl());
+    const res = mockRes();
+
+    await vortex.handlers.handleCreateInvitation(
+      mockReq({ body: { ...createBody, target: { type: 'email', value: 'someone@other.com' } } }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json.mock.calls[0][0].error.code).toBe('email_domain_not_allowed');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('passes the target, scope and inviter to canCreateInvitation', async () => {
+    const canCreateInvitation = jest.fn(async () => false);
+    const { vortex, fetchMock } = createTestVortex({ canCreateInvitation });
+    const res = mockRes();
+
+    await vortex.handlers.handleCreateInvitation(mockReq({ body: createBody }), res);
+
+    expect(canCreateInvitation).toHaveBeenCalledWith(expect.anything(), res, expect.anything(), {
+      target: createBody.target,
+      scope: { scopeId: 'team-1', scopeType: 'team', scopeName: undefined },
+      inviter: { userId: 'user-1', userEmail: 'owner@acme.com', name: 'Owner' },
+    });
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('requires an authenticated user', async () => {
+    const { vortex } = createTestVortex({ authenticateUser: async () => null });
+    const res = mockRes();
+
+    await vortex.handlers.handleCreateInvitation(mockReq({ body: createBody }), res);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
+
+describe('built-in policies', () => {
+  const nonAdmin = async () => ({ userId: 'user-2', adminScopes: ['team-2'] });
+
+  it('lets any authenticated user revoke invitations by default', async () => {
+    const { vortex, fetchMock } = createTestVortex({ authenticateUser: nonAdmin });
+    const res = mockRes();
+
+    await vortex.handlers.handleRevokeInvitation(
+      mockReq({ method: 'DELETE', params: { invitationId: 'inv_1' } }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(fetchMock.mock.calls.map(([, init]) => init?.method)).toEqual(['DELETE']);
+  });
+
+  it('lets scope admins revoke invitations', async () => {
+    const { vortex, fetchMock } = createTestVortex({ enforceAdminScopes: true });
+    const res = mockRes();
+
+    await vortex.handlers.handleRevokeInvitation(
+      mockReq({ method: 'DELETE', params: { invitationId: 'inv_1' } }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(fetchMock.mock.calls.map(([, init]) => init?.method)).toEqual(['GET', 'DELETE']);
+  });
+
+  it('denies revoking invitations outside the user\'s admin scopes', async () => {
+    const { vortex, fetchMock } = createTestVortex({ enforceAdminScopes: true, authenticateUser: nonAdmin });
+    const res = mockRes();
+
+    await vortex.handlers.handleRevokeInvitation(
+      mockReq({ method: 'DELETE', params: { invitationId: 'inv_1' } }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('denies reinviting to email targets outside the allowed domains', async () => {
+    const { vortex } = createTestVortex({}, {
+      ...existingInvitation,
+      target: [{ type: 'email', value: 'someone@other.com' }],
+    });
+    const res = mockRes();
+
+    await vortex.handlers.handleReinvite(mockReq({ params: { invitationId: 'inv_1' } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json.mock.calls[0][0].error.code).toBe('email_domain_not_allowed');
+  });
+
+  it('denies deleting invitations of scopes the user does not administer', async () => {
+    const { vortex, fetchMock } = createTestVortex({ enforceAdminScopes: true, authenticateUser: nonAdmin });
+    const res = mockRes();
+
+    await vortex.handlers.handleDeleteInvitationsByScope(
+      mockReq({ method: 'DELETE', params: { scopeType: 'team', scope: 'team-1' } }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('is overridden by an explicit hook', async () => {
+    const canDeleteInvitationsByScope = jest.fn(async () => true);
+    const { vortex } = createTestVortex({
+      enforceAdminScopes: true,
+      authenticateUser: nonAdmin,
+      canDeleteInvitationsByScope,
+    });
+    const res = mockRes();
+
+    await vortex.handlers.handleDeleteInvitationsByScope(
+      mockReq({ method: 'DELETE', params: { scopeType: 'team', scope: 'team-1' } }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+});
+
+describe('fetchInvitationForHooks', () => {
+  it('passes the fetched invitation to the hook and reuses it for the response', async () => {
+    const canAccessInvitation = jest.fn(async (_req, _res, user: any, resource: any) =>
+      resource.invitation.foreignCreatorId === user.userId
+    );
+    const { vortex, fetchMock } = createTestVortex(
+      { fetchInvitationForHooks: true, canAccessInvitation },
+      { ...existingInvitation, foreignCreatorId: 'user-1' }
+    );
+    const res = mockRes();
+
+    await vortex.handlers.handleGetInvitation(
+      mockReq({ method: 'GET', params: { invitationId: 'inv_1' } }),
+      res
+    );
+
+    expect(canAccessInvitation.mock.calls[0][3]).toMatchObject({
+      invitationId: 'inv_1',
+      invitation: { id: 'inv_1', foreignCreatorId: 'user-1' },
+    });
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('only passes the invitation ID when disabled', async () => {
+    const canReinvite = jest.fn(async () => false);
+    const { vortex, fetchMock } = createTestVortex({ canReinvite });
+    const res = mockRes();
+
+    await vortex.handlers.handleReinvite(mockReq({ params: { invitationId: 'inv_1' } }), res);
+
+    expect(canReinvite.mock.calls[0][3]).toEqual({ invitationId: 'inv_1' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { createVortex } from '../../src/instance';
+import type { VortexConfig } from '../../src/config';
+
+// VRTX.<base64url uuid>.<key>
+const API_KEY = `VRTX.${Buffer.from('8f2d1c7e4b3a4f6e9d0c1b2a3f4e5d6c', 'hex').toString('base64url')}.secret`;
+
+function mockReq(overrides: Record<string, any> = {}) {
+  return {
+    method: 'POST',
+    headers: {},
+    params: {},
+    query: {},
+    body: {},
+    ...overrides,
+  } as any;
+}
+
+function mockRes() {
+  const res: any = { locals: {}, setHeader: jest.fn() };
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+function decode(jwt: string): Record<string, any> {
+  return JSON.parse(Buffer.from(jwt.split('.')[1], 'base64url').toString('utf8'));
+}
+
+function createTestVortex(config: Partial<VortexConfig> = {}) {
+  return createVortex({
+    apiKey: API_KEY,
+    authenticateUser: async () => ({ userId: 'user-1', userEmail: 'user@example.com' }),
+    ...config,
+  });
+}
+
+async function requestJwt(
+  handler: (req: any, res: any) => Promise<unknown>
+): Promise<{ jwt: string; expiresAt: string }> {
+  const res = mockRes();
+  await handler(mockReq(), res);
+  expect(res.status).toHaveBeenCalledWith(200);
+  return res.json.mock.calls[0][0];
+}
+
+describe('handleJwtGeneration', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('issues a token with the configured lifetime and its expiry', async () => {
+    const vortex = createTestVortex({ jwt: { expiresIn: '1h' } });
+    const before = Math.floor(Date.now() / 1000);
+
+    const { jwt, expiresAt } = await requestJwt(vortex.handlers.handleJwtGeneration);
+
+    const payload = decode(jwt);
+    expect(payload.expires - before).toBeGreaterThanOrEqual(3600);
+    expect(payload.expires - before).toBeLessThanOrEqual(3601);
+    expect(expiresAt).toBe(new Date(payload.expires * 1000).toISOString());
+  });
+
+  it('adds the audience and extra claims without overriding identity claims', async () => {
+    const vortex = createTestVortex({
+      jwt: {
+        audience: 'app.example.com',
+        claims: (user) => ({
+          plan: 'pro',
+          tenant: `tenant-of-${user.userId}`,
+          userId: 'someone-else',
+          allowedEmailDomains: ['*'],
+          role: 'admin',
+        }),
+      },
+    });
+
+    const { jwt } = await requestJwt(vortex.handlers.handleJwtGeneration);
+
+    expect(decode(jwt)).toMatchObject({
+      aud: 'app.example.com',
+      plan: 'pro',
+      tenant: 'tenant-of-user-1',
+      userId: 'user-1',
+    });
+    expect(decode(jwt)).not.toHaveProperty('allowedEmailDomains');
+    expect(decode(jwt)).not.toHaveProperty('role');
+  });
+
+  it('reuses a cached token until it is refreshed', async () => {
+    const vortex = createTestVortex({ jwt: { expiresIn: '1h', cache: true } });
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    const first = await requestJwt(vortex.handlers.handleJwtGeneration);
+    clock.mockReturnValue(now + 60_000);
+    const second = await requestJwt(vortex.handlers.handleJwtGeneration);
+    expect(second).toEqual(first);
+
+    const refreshed = await requestJwt(vortex.handlers.handleJwtRefresh);
+    expect(refreshed.jwt).not.toBe(first.jwt);
+    expect(Date.parse(refreshed.expiresAt)).toBeGreaterThan(Date.parse(first.expiresAt));
+
+    // Past half the lifetime, a new token is minted
+    clock.mockReturnValue(now + 60_000 + 31 * 60_000);
+    const later = await requestJwt(vortex.handlers.handleJwtGeneration);
+    expect(later.jwt).not.toBe(refreshed.jwt);
+  });
+
+  it('mints a token per request without caching', async () => {
+    const vortex = createTestVortex();
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    const first = await requestJwt(vortex.handlers.handleJwtGeneration);
+    clock.mockReturnValue(now + 1000);
+    const second = await requestJwt(vortex.handlers.handleJwtGeneration);
+
+    expect(second.jwt).not.toBe(first.jwt);
+  });
+
+  it('filters attributes and adds claims from mapJwtClaims', async () => {
+    const vortex = createTestVortex({
+      authenticateUser: async () => ({
+        userId: 'user-1',
+        userEmail: 'user@example.com',
+        attributes: { department: 'sales', region: 'emea', internalScore: 42 },
+      }),
+      jwt: { attributes: { allow: ['department', 'region', 'internalScore'], deny: ['internalScore'] } },
+      mapJwtClaims: async (user) => ({ isSales: user.attributes?.department === 'sales', expires: 0 }),
+    });
+
+    const { jwt } = await requestJwt(vortex.handlers.handleJwtGeneration);
+
+    const payload = decode(jwt);
+    expect(payload.attributes).toEqual({ department: 'sales', region: 'emea' });
+    expect(payload.isSales).toBe(true);
+    expect(payload.expires).toBeGreaterThan(0);
+  });
+
+  it('does not let claims bring back denied attributes', async () => {
+    const vortex = createTestVortex({
+      authenticateUser: async () => ({
+        userId: 'user-1',
+        userEmail: 'user@example.com',
+        attributes: { department: 'sales', internalScore: 42 },
+      }),
+      jwt: {
+        attributes: { deny: ['internalScore'] },
+        claims: (user) => ({ attributes: user.attributes }),
+      },
+    });
+
+    const { jwt } = await requestJwt(vortex.handlers.handleJwtGeneration);
+
+    expect(decode(jwt).attributes).toEqual({ department: 'sales' });
+  });
+
+  it('does not let mapJwtClaims override the admin scopes', async () => {
+    const vortex = createTestVortex({
+      authenticateUser: async () => ({ userId: 'user-1', userEmail: 'user@example.com', adminScopes: ['team-1'] }),
+      mapJwtClaims: () => ({ adminScopes: ['autojoin', 'team-2'], userIsAutojoinAdmin: true, plan: 'pro' }),
+    });
+
+    const { jwt } = await requestJwt(vortex.handlers.handleJwtGeneration);
+
+    const payload = decode(jwt);
+    expect(payload.adminScopes).toEqual(['team-1']);
+    expect(payload).not.toHaveProperty('userIsAutojoinAdmin');
+    expect(payload.plan).toBe('pro');
+  });
+
+  it('counts the claims the token is signed with against the size limit', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const vortex = createTestVortex({
+      // The signed payload repeats the email in `identifiers`
+      authenticateUser: async () => ({ userId: 'user-1', userEmail: `${'a'.repeat(300)}@example.com` }),
+      jwt: { maxClaimsBytes: 512 },
+    });
+    const res = mockRes();
+
+    await vortex.handlers.handleJwtGeneration(mockReq(), res);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+  });
+
+  it('refuses to issue a token whose claims are too large', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const vortex = createTestVortex({
+      jwt: { maxClaimsBytes: 256 },
+      mapJwtClaims: () => ({ permissions: Array.from({ length: 50 }, (_, i) => `permission-${i}`) }),
+    });
+    const res = mockRes();
+
+    await vortex.handlers.handleJwtGeneration(mockReq(), res);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(JSON.stringify(res.json.mock.calls[0][0])).not.toContain('byte limit');
+  });
+
+  it('logs claims at debug level with personal data redacted', async () => {
+    const debug = jest.spyOn(console, 'debug').mockImplementation(() => {});
+    const vortex = createTestVortex({
+      authenticateUser: async () => ({
+        userId: 'user-1',
+        userEmail: 'user@example.com',
+        name: 'Ada Lovelace',
+        attributes: { ssn: '123-45-6789', plan: 'pro' },
+      }),
+      jwt: { debug: true, redactClaims: ['ssn'] },
+    });
+
+    await requestJwt(vortex.handlers.handleJwtGeneration);
+
+    expect(debug).toHaveBeenCalledTimes(1);
+    const logged = debug.mock.calls[0][1];
+    expect(logged).toMatchObject({
+      user: { id: 'user-1', email: '[REDACTED]', name: '[REDACTED]' },
+      attributes: { ssn: '[REDACTED]', plan: 'pro' },
+    });
+  });
+
+  it('responds 401 to the refresh route without a user', async () => {
+    const vortex = createTestVortex({ authenticateUser: async () => null });
+    const res = mockRes();
+
+    await vortex.handlers.handleJwtRefresh(mockReq(), res);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
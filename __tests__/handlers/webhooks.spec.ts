@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import type { Request, Response, NextFunction } from 'express';
-import { createVortexWebhookHandler } from '../../src/handlers/webhooks';
+import { createVortexWebhookHandler, MemoryWebhookEventStore } from '../../src/handlers/webhooks';
 import { VortexWebhooks, VortexWebhookEvent } from '@teamvortexsoftware/vortex-node-22-sdk';
 import crypto from 'node:crypto';
 
@@ -201,4 +201,139 @@ describe('createVortexWebhookHandler', () => {
     expect(error.name).toBe('VortexWebhookSignatureError');
     expect(mockRes.status).toHaveBeenCalledWith(401);
   });
+
+  describe('replay protection', () => {
+    function deliver(event: VortexWebhookEvent = sampleWebhookEvent) {
+      const payload = JSON.stringify(event);
+      const res = {
+        status: jest.fn().mockReturnThis() as any,
+        json: jest.fn().mockReturnThis() as any,
+      };
+      const req = { headers: { 'x-vortex-signature': sign(payload) }, body: Buffer.from(payload) };
+      return { req: req as unknown as Request, res: res as unknown as Response & typeof res };
+    }
+
+    it('rejects events outside the tolerance window', async () => {
+      const onEventMock = jest.fn();
+      const handler = createVortexWebhookHandler(
+        webhooks,
+        { onEvent: onEventMock },
+        { toleranceMs: 5 * 60 * 1000 }
+      );
+      const stale = { ...sampleWebhookEvent, timestamp: new Date(Date.now() - 10 * 60 * 1000).toISOString() };
+      const { req, res } = deliver(stale);
+
+      await handler(req, res, mockNext);
+
+      expect(onEventMock).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Webhook timestamp is outside the tolerance window' });
+    });
+
+    it('accepts old events unless a tolerance is set', async () => {
+      const onEventMock = jest.fn();
+      const handler = createVortexWebhookHandler(webhooks, { onEvent: onEventMock });
+      const { req, res } = deliver({ ...sampleWebhookEvent, timestamp: '2020-01-01T00:00:00Z' });
+
+      await handler(req, res, mockNext);
+
+      expect(onEventMock).toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('acknowledges redelivered events without running handlers again', async () => {
+      const onEventMock = jest.fn();
+      const handler = createVortexWebhookHandler(webhooks, { onEvent: onEventMock });
+
+      const first = deliver();
+      await handler(first.req, first.res, mockNext);
+      const second = deliver();
+      await handler(second.req, second.res, mockNext);
+
+      expect(onEventMock).toHaveBeenCalledTimes(1);
+      expect(second.res.status).toHaveBeenCalledWith(200);
+      expect(second.res.json).toHaveBeenCalledWith({ received: true, duplicate: true });
+    });
+
+    it('runs handlers again for a redelivery after a handler failure', async () => {
+      const eventStore = new MemoryWebhookEventStore();
+      const onEventMock = jest.fn<() => Promise<void>>().mockRejectedValueOnce(new Error('Handler error'));
+      const handler = createVortexWebhookHandler(webhooks, { onEvent: onEventMock }, { eventStore });
+
+      const first = deliver();
+      await handler(first.req, first.res, mockNext);
+      const second = deliver();
+      await handler(second.req, second.res, mockNext);
+
+      expect(first.res.status).toHaveBeenCalledWith(500);
+      expect(onEventMock).toHaveBeenCalledTimes(2);
+      expect(second.res.json).toHaveBeenCalledWith({ received: true });
+    });
+
+    it('handles every delivery when deduplication is disabled', async () => {
+      const onEventMock = jest.fn();
+      const handler = createVortexWebhookHandler(webhooks, { onEvent: onEventMock }, { eventStore: false });
+
+      const first = deliver();
+      await handler(first.req, first.res, mockNext);
+      const second = deliver();
+      await handler(second.req, second.res, mockNext);
+
+      expect(onEventMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('secret rotation', () => {
+    function deliver(secret: string) {
+      const payload = JSON.stringify(sampleWebhookEvent);
+      const res = {
+        status: jest.fn().mockReturnThis() as any,
+        json: jest.fn().mockReturnThis() as any,
+      };
+      const req = { headers: { 'x-vortex-signature': sign(payload, secret) }, body: payload };
+      return { req: req as unknown as Request, res: res as unknown as Response & typeof res };
+    }
+
+    it('accepts events signed with any of the secrets and reports the match', async () => {
+      const onSecretMatched = jest.fn();
+      const onEventMock = jest.fn();
+      const handler = createVortexWebhookHandler(
+        webhooks,
+        { onEvent: onEventMock },
+        { secrets: ['whsec_new', 'whsec_old'], onSecretMatched, eventStore: false },
+      );
+
+      const { req, res } = deliver('whsec_old');
+      await handler(req, res, mockNext);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(onEventMock).toHaveBeenCalledWith(sampleWebhookEvent);
+      expect(onSecretMatched).toHaveBeenCalledWith({ index: 1, secret: 'whsec_old' }, req);
+    });
+
+    it('resolves secrets per request', async () => {
+      const handler = createVortexWebhookHandler(webhooks, {}, { secrets: async () => ['whsec_resolved'] });
+
+      const { req, res } = deliver('whsec_resolved');
+      await handler(req, res, mockNext);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('returns 401 when no secret matches', async () => {
+      const onErrorMock = jest.fn();
+      const handler = createVortexWebhookHandler(
+        webhooks,
+        { onError: onErrorMock },
+        { secrets: ['whsec_new', 'whsec_old'] },
+      );
+
+      const { req, res } = deliver(TEST_SECRET);
+      await handler(req, res, mockNext);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Invalid signature' });
+      expect(onErrorMock).toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,96 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { withIdempotency, MemoryIdempotencyStore } from '../src/idempotency';
+import { createVortexConfigProvider, withVortexConfig, VortexConfig } from '../src/config';
+
+function mockReq(overrides: Record<string, any> = {}) {
+  return {
+    method: 'POST',
+    originalUrl: '/api/vortex/invitations/inv_1/reinvite',
+    headers: { 'idempotency-key': 'key-1' },
+    params: {},
+    query: {},
+    body: {},
+    ...overrides,
+  } as any;
+}
+
+function mockRes() {
+  const res: any = { locals: {}, statusCode: 200 };
+  res.setHeader = jest.fn();
+  res.status = jest.fn((status: number) => {
+    res.statusCode = status;
+    return res;
+  });
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+function setup(config: Partial<VortexConfig> = {}, status: number = 200) {
+  const handler = jest.fn(async (_req: any, res: any) => res.status(status).json({ calls: handler.mock.calls.length }));
+  const route = withVortexConfig(
+    withIdempotency(handler),
+    createVortexConfigProvider({
+      apiKey: 'test-key',
+      authenticateUser: async () => ({ userId: 'user-1' }),
+      idempotency: { store: new MemoryIdempotencyStore() },
+      ...config,
+    })
+  );
+  return { handler, route };
+}
+
+describe('withIdempotency', () => {
+  it('replays the recorded response for a repeated key', async () => {
+    const { handler, route } = setup();
+
+    await route(mockReq(), mockRes());
+    const res = mockRes();
+    await route(mockReq(), res);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith({ calls: 1 });
+    expect(res.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+  });
+
+  it('rejects a reused key with a different payload', async () => {
+    const { handler, route } = setup();
+
+    await route(mockReq({ body: { invitationIds: ['a'] } }), mockRes());
+    const res = mockRes();
+    await route(mockReq({ body: { invitationIds: ['b'] } }), res);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json.mock.calls[0][0].error.code).toBe('idempotency_key_reused');
+  });
+
+  it('does not record server errors', async () => {
+    const { handler, route } = setup({}, 502);
+
+    await route(mockReq(), mockRes());
+    await route(mockReq(), mockRes());
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('scopes keys to the authenticated user', async () => {
+    let userId = 'user-1';
+    const { handler, route } = setup({ authenticateUser: async () => ({ userId }) });
+
+    await route(mockReq(), mockRes());
+    userId = 'user-2';
+    await route(mockReq(), mockRes());
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs requests without the header normally', async () => {
+    const { handler, route } = setup();
+
+    await route(mockReq({ headers: {} }), mockRes());
+    await route(mockReq({ headers: {} }), mockRes());
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { createVortex } from '../src/instance';
+import { getVortexConfig } from '../src/config';
+
+function mockReq(overrides: Record<string, any> = {}) {
+  return {
+    method: 'POST',
+    headers: {},
+    params: {},
+    query: {},
+    body: {},
+    ...overrides,
+  } as any;
+}
+
+function mockRes() {
+  const res: any = { locals: {} };
+  res.setHeader = jest.fn();
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+describe('createVortex', () => {
+  it('resolves each instance with its own configuration', async () => {
+    const publicVortex = createVortex({ apiKey: 'public-key' });
+    const adminVortex = createVortex({ apiKey: 'admin-key', apiBaseUrl: 'http://localhost:4000' });
+
+    expect((await publicVortex.getConfig()).apiKey).toBe('public-key');
+    expect((await adminVortex.getConfig()).apiKey).toBe('admin-key');
+    expect((await adminVortex.getConfig()).apiBaseUrl).toBe('http://localhost:4000');
+  });
+
+  it('does not touch the global configuration', async () => {
+    const previous = process.env.VORTEX_API_KEY;
+    delete process.env.VORTEX_API_KEY;
+    try {
+      createVortex({ apiKey: 'instance-key' });
+      await expect(getVortexConfig()).rejects.toThrow('Vortex not configured');
+    } finally {
+      if (previous !== undefined) process.env.VORTEX_API_KEY = previous;
+    }
+  });
+
+  it('binds handlers to the instance hooks', async () => {
+    const authenticateUser = jest.fn(async () => null);
+    const vortex = createVortex({ apiKey: 'instance-key', authenticateUser });
+    const req = mockReq();
+    const res = mockRes();
+
+    await vortex.handlers.handleJwtGeneration(req, res);
+
+    expect(authenticateUser).toHaveBeenCalledWith(req, res);
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it('binds authenticateRequest to the instance hooks', async () => {
+    const user = { userId: 'user-1', userEmail: 'user@example.com' };
+    const vortex = createVortex({ apiKey: 'instance-key', authenticateUser: async () => user });
+
+    await expect(vortex.authenticateRequest(mockReq(), mockRes())).resolves.toEqual(user);
+  });
+
+  it('registers all routes on the router', () => {
+    const vortex = createVortex({ apiKey: 'instance-key' });
+    const paths = vortex.router.stack.map((layer: any) => layer.route?.path);
+
+    expect(paths).toContain('/jwt');
+    expect(paths).toContain('/invitations/by-scope/:scopeType/:scope');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { definePolicy, explainDecision } from '../src/policies';
+import { withVortexConfig, createVortexConfigProvider } from '../src/config';
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+const invitation = {
+  id: 'inv_1',
+  foreignCreatorId: 'creator-1',
+  scopes: [{ scopeId: 'team-1', groupId: 'team-1', type: 'team' }],
+  target: [{ type: 'email', value: 'Invitee@Acme.com' }],
+};
+
+function setup() {
+  const fetchMock = jest.fn(async (_url: string, _init?: RequestInit) => jsonResponse(invitation));
+  const provider = createVortexConfigProvider({
+    apiKey: 'test-key',
+    apiBaseUrl: 'http://localhost:4000',
+    client: { fetch: fetchMock as unknown as typeof fetch },
+  });
+  const req = { headers: {} } as any;
+  const res = { locals: {} } as any;
+  // Bind the request to the test configuration, as the Vortex router does
+  withVortexConfig(async () => undefined, provider)(req, res);
+  return { fetchMock, req, res };
+}
+
+describe('definePolicy', () => {
+  it('compiles actions to the matching access control hooks', () => {
+    const policy = definePolicy({
+      'invitation.revoke': ['scopeAdmin'],
+      'scope.delete': ['scopeAdmin'],
+    });
+
+    expect(Object.keys(policy).sort()).toEqual(['canDeleteInvitation', 'canDeleteInvitationsByScope']);
+  });
+
+  it('allows an action when any rule passes', async () => {
+    const { req, res, fetchMock } = setup();
+    const policy = definePolicy({ 'invitation.revoke': ['scopeAdmin', 'creator'] });
+
+    const creator = { userId: 'creator-1' };
+    const stranger = { userId: 'user-2', adminScopes: ['team-2'] };
+
+    expect(await policy.canDeleteInvitation!(req, res, creator, { invitationId: 'inv_1' })).toBe(true);
+    expect(await policy.canDeleteInvitation!(req, res, stranger, { invitationId: 'inv_1' })).toBe(false);
+    // The invitation is fetched once per request
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('requires every rule of a nested list', async () => {
+    const { req, res } = setup();
+    const policy = definePolicy({ 'scope.delete': [['scopeAdmin', ({ user }) => user?.role === 'owner']] });
+
+    const admin = { userId: 'user-1', adminScopes: ['team-1'] };
+    const resource = { scopeType: 'team', scope: 'team-1' };
+
+    expect(await policy.canDeleteInvitationsByScope!(req, res, admin, resource)).toBe(false);
+    expect(await policy.canDeleteInvitationsByScope!(req, res, { ...admin, role: 'owner' }, resource)).toBe(true);
+  });
+
+  it('matches invitees case-insensitively', async () => {
+    const { req, res } = setup();
+    const policy = definePolicy({ 'invitation.read': ['invitee'] });
+
+    const user = { userId: 'user-3', userEmail: 'invitee@acme.com' };
+    expect(await policy.canAccessInvitation!(req, res, user, { invitationId: 'inv_1' })).toBe(true);
+  });
+
+  it('rejects unknown predicate names up front', () => {
+    expect(() => definePolicy({ 'invitation.read': ['scopeAdmn'] })).toThrow('Unknown policy predicate: scopeAdmn');
+  });
+});
+
+describe('explainDecision', () => {
+  it('reports the outcome of every rule', async () => {
+    const { req, res } = setup();
+    const failing = () => {
+      throw new Error('boom');
+    };
+    const policy = definePolicy(
+      { 'invitation.revoke': ['scopeAdmin', 'creator', failing] },
+      { predicates: {} }
+    );
+
+    const decision = await explainDecision(policy, 'invitation.revoke', {
+      request: req,
+      response: res,
+      user: { userId: 'creator-1' },
+      resource: { invitationId: 'inv_1' },
+    });
+
+    expect(decision.allowed).toBe(true);
+    expect(decision.matchedRule).toBe('creator');
+    expect(decision.rules.map(({ rule, allowed }) => [rule, allowed])).toEqual([
+      ['scopeAdmin', false],
+      ['creator', true],
+      ['failing', false],
+    ]);
+    expect((decision.rules[2].error as Error).message).toBe('boom');
+  });
+});
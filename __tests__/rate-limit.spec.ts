@@ -0,0 +1,158 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { withRateLimit, MemoryRateLimitStore, RateLimitedRoute } from '../src/rate-limit';
+import { createVortexConfigProvider, withVortexConfig, VortexConfig } from '../src/config';
+
+function mockReq(overrides: Record<string, any> = {}) {
+  return {
+    method: 'POST',
+    ip: '203.0.113.1',
+    headers: {},
+    params: { invitationId: 'inv_1' },
+    query: {},
+    body: {},
+    ...overrides,
+  } as any;
+}
+
+function mockRes() {
+  const res: any = { locals: {} };
+  res.setHeader = jest.fn();
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+function setup(config: Partial<VortexConfig>, route: RateLimitedRoute = 'invitation.reinvite') {
+  const handler = jest.fn(async (_req: any, res: any) => res.status(200).json({}));
+  const limited = withVortexConfig(
+    withRateLimit(route, handler),
+    createVortexConfigProvider({
+      apiKey: 'test-key',
+      authenticateUser: async () => ({ userId: 'user-1' }),
+      ...config,
+    })
+  );
+  return { handler, limited };
+}
+
+describe('withRateLimit', () => {
+  it('responds 429 with Retry-After once the budget is spent', async () => {
+    const { handler, limited } = setup({
+      rateLimit: {
+        store: new MemoryRateLimitStore(),
+        routes: { 'invitation.reinvite': { limit: 2, windowMs: 60_000 } },
+      },
+    });
+
+    await limited(mockReq(), mockRes());
+    await limited(mockReq(), mockRes());
+    const res = mockRes();
+    await limited(mockReq(), res);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.setHeader).toHaveBeenCalledWith('Retry-After', '30');
+    expect(res.json.mock.calls[0][0].error.code).toBe('rate_limited');
+  });
+
+  it('keeps separate budgets per user', async () => {
+    let userId = 'user-1';
+    const { handler, limited } = setup({
+      authenticateUser: async () => ({ userId }),
+      rateLimit: { store: new MemoryRateLimitStore(), default: { limit: 1, windowMs: 60_000 } },
+    });
+
+    await limited(mockReq(), mockRes());
+    userId = 'user-2';
+    await limited(mockReq(), mockRes());
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('limits by scope when configured', async () => {
+    const { handler, limited } = setup(
+      {
+        rateLimit: {
+          store: new MemoryRateLimitStore(),
+          routes: { 'scope.delete': { limit: 1, windowMs: 60_000, keyBy: 'scope' } },
+        },
+      },
+      'scope.delete'
+    );
+
+    await limited(mockReq({ params: { scopeType: 'team', scope: 'team-1' } }), mockRes());
+    await limited(mockReq({ params: { scopeType: 'team', scope: 'team-1' } }), mockRes());
+    await limited(mockReq({ params: { scopeType: 'team', scope: 'team-2' } }), mockRes());
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('only spends a budget when every key allows the request', async () => {
+    let userId = 'user-1';
+    const { handler, limited } = setup(
+      {
+        authenticateUser: async () => ({ userId }),
+        rateLimit: {
+          store: new MemoryRateLimitStore(),
+          routes: { 'scope.delete': { limit: 1, windowMs: 60_000, keyBy: ['user', 'scope'] } },
+        },
+      },
+      'scope.delete'
+    );
+
+    await limited(mockReq({ params: { scopeType: 'team', scope: 'team-1' } }), mockRes());
+    userId = 'user-2';
+    // Denied by the team-1 budget, which must not spend user-2's
+    await limited(mockReq({ params: { scopeType: 'team', scope: 'team-1' } }), mockRes());
+    await limited(mockReq({ params: { scopeType: 'team', scope: 'team-2' } }), mockRes());
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets routes opt out of the default budget', async () => {
+    const { handler, limited } = setup(
+      {
+        rateLimit: {
+          store: new MemoryRateLimitStore(),
+          default: { limit: 1, windowMs: 60_000 },
+          routes: { jwt: false },
+        },
+      },
+      'jwt'
+    );
+
+    await limited(mockReq(), mockRes());
+    await limited(mockReq(), mockRes());
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not limit routes unless configured', async () => {
+    const { handler, limited } = setup({});
+
+    for (let i = 0; i < 5; i++) {
+      await limited(mockReq(), mockRes());
+    }
+
+    expect(handler).toHaveBeenCalledTimes(5);
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('refills tokens over the window', async () => {
+    jest.useFakeTimers({ now: 0 });
+    try {
+      const store = new MemoryRateLimitStore();
+      const budget = { limit: 2, windowMs: 1000 };
+
+      expect((await store.consume(['key'], budget)).allowed).toBe(true);
+      expect((await store.consume(['key'], budget)).allowed).toBe(true);
+      expect(await store.consume(['key'], budget)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 500 });
+
+      jest.setSystemTime(500);
+      expect((await store.consume(['key'], budget)).allowed).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
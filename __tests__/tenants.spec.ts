@@ -0,0 +1,71 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  VortexConfig,
+  createVortexConfigProvider,
+  getRequestVortexConfig,
+} from '../src/config';
+import { clearVortexTenantCache } from '../src/tenants';
+
+function mockReq(tenantId: string) {
+  return { headers: { 'x-tenant-id': tenantId } } as any;
+}
+
+function mockRes(config: VortexConfig) {
+  return { locals: { vortexConfigProvider: createVortexConfigProvider(config) } } as any;
+}
+
+describe('multi-tenant configuration', () => {
+  it('applies the resolved tenant on top of the base configuration', async () => {
+    const authenticateUser = async () => null;
+    const config: VortexConfig = {
+      apiKey: '',
+      authenticateUser,
+      resolveTenant: async (req) => ({
+        apiKey: `key-${req.headers['x-tenant-id']}`,
+        apiBaseUrl: 'http://tenant.local',
+      }),
+    };
+
+    const resolved = await getRequestVortexConfig(mockReq('acme'), mockRes(config));
+
+    expect(resolved.apiKey).toBe('key-acme');
+    expect(resolved.apiBaseUrl).toBe('http://tenant.local');
+    expect(resolved.authenticateUser).toBe(authenticateUser);
+  });
+
+  it('falls back to the base configuration when no tenant is resolved', async () => {
+    const config: VortexConfig = { apiKey: 'base-key', resolveTenant: async () => null };
+
+    const resolved = await getRequestVortexConfig(mockReq('unknown'), mockRes(config));
+
+    expect(resolved.apiKey).toBe('base-key');
+  });
+
+  it('rejects requests that resolve no API key', async () => {
+    const config: VortexConfig = { apiKey: '', resolveTenant: async () => null };
+
+    await expect(getRequestVortexConfig(mockReq('unknown'), mockRes(config))).rejects.toThrow(
+      'No Vortex API key resolved'
+    );
+  });
+
+  it('caches resolutions per tenant ID until cleared', async () => {
+    const resolveTenant = jest.fn(async (req: any) => ({
+      apiKey: `key-${req.headers['x-tenant-id']}`,
+    }));
+    const config: VortexConfig = {
+      apiKey: '',
+      resolveTenant,
+      getTenantId: (req) => req.headers['x-tenant-id'] as string,
+    };
+
+    await getRequestVortexConfig(mockReq('acme'), mockRes(config));
+    await getRequestVortexConfig(mockReq('acme'), mockRes(config));
+    await getRequestVortexConfig(mockReq('globex'), mockRes(config));
+    expect(resolveTenant).toHaveBeenCalledTimes(2);
+
+    clearVortexTenantCache(resolveTenant, 'acme');
+    await getRequestVortexConfig(mockReq('acme'), mockRes(config));
+    expect(resolveTenant).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { validateRequest } from '../src/validation';
+import {
+  acceptInvitationsBodySchema,
+  invitationsByTargetQuerySchema,
+  syncInternalInvitationBodySchema,
+} from '../src/schemas';
+import { createVortex } from '../src/instance';
+
+function mockRes() {
+  const res: any = { locals: {} };
+  res.setHeader = jest.fn();
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+describe('validateRequest', () => {
+  it('returns the parsed body', () => {
+    const req: any = {
+      body: { invitationIds: ['inv_1'], user: { email: 'user@example.com' }, extra: true },
+    };
+
+    const { body } = validateRequest(req, { body: acceptInvitationsBodySchema });
+
+    expect(body).toEqual({ invitationIds: ['inv_1'], user: { email: 'user@example.com' } });
+  });
+
+  it('lists every failing field', () => {
+    const req: any = {
+      body: { creatorId: 42, action: 'maybe', componentId: 'component-1' },
+    };
+
+    expect(() => validateRequest(req, { body: syncInternalInvitationBodySchema })).toThrow(
+      expect.objectContaining({
+        status: 400,
+        code: 'validation_error',
+        details: [
+          { field: 'body.creatorId', message: 'must be a string' },
+          { field: 'body.targetValue', message: 'is required' },
+          { field: 'body.action', message: 'must be one of: accepted, declined' },
+        ],
+      })
+    );
+  });
+
+  it('applies cross-field rules', () => {
+    expect(() =>
+      validateRequest({ body: { invitationIds: ['inv_1'] } } as any, { body: acceptInvitationsBodySchema })
+    ).toThrow(
+      expect.objectContaining({
+        details: [{ field: 'body', message: 'must include either user or target' }],
+      })
+    );
+    expect(() =>
+      validateRequest({ body: { invitationIds: ['inv_1'], user: { name: 'Ada' } } } as any, {
+        body: acceptInvitationsBodySchema,
+      })
+    ).toThrow(
+      expect.objectContaining({
+        details: [{ field: 'body.user', message: 'must have either email or phone' }],
+      })
+    );
+  });
+
+  it('reports item paths for arrays', () => {
+    expect(() =>
+      validateRequest({ body: { invitationIds: ['inv_1', 7], user: { email: 'a@b.co' } } } as any, {
+        body: acceptInvitationsBodySchema,
+      })
+    ).toThrow(
+      expect.objectContaining({
+        details: [{ field: 'body.invitationIds[1]', message: 'must be a string' }],
+      })
+    );
+  });
+});
+
+describe('field validators', () => {
+  function acceptBody(user: Record<string, unknown>) {
+    return { body: { invitationIds: ['inv_1'], user } } as any;
+  }
+
+  it('keeps apostrophes and other legitimate characters intact', () => {
+    const { body } = validateRequest(
+      acceptBody({ email: "o'brien@example.com", name: "Siobhán O'Brien <CTO>" }),
+      { body: acceptInvitationsBodySchema }
+    );
+
+    expect(body.user).toEqual({ email: "o'brien@example.com", name: "Siobhán O'Brien <CTO>" });
+  });
+
+  it('rejects invalid emails and non-E.164 phone numbers', () => {
+    expect(() =>
+      validateRequest(acceptBody({ email: 'not-an-email', phone: '(415) 555-0123' }), {
+        body: acceptInvitationsBodySchema,
+      })
+    ).toThrow(
+      expect.objectContaining({
+        details: [
+          { field: 'body.user.email', message: 'must be a valid email address' },
+          { field: 'body.user.phone', message: 'must be an E.164 phone number, e.g. +14155550123' },
+        ],
+      })
+    );
+  });
+
+  it('rejects values over the configured length limit instead of truncating', () => {
+    const req = acceptBody({ email: 'user@example.com', name: 'A'.repeat(20) });
+
+    expect(() => validateRequest(req, { body: acceptInvitationsBodySchema }, { name: 10 })).toThrow(
+      expect.objectContaining({
+        details: [{ field: 'body.user.name', message: 'must be at most 10 characters' }],
+      })
+    );
+  });
+
+  it('checks target values against the target type', () => {
+    const req: any = { query: { targetType: 'email', targetValue: '+14155550123' } };
+
+    expect(() => validateRequest(req, { query: invitationsByTargetQuerySchema })).toThrow(
+      expect.objectContaining({
+        details: [{ field: 'query.targetValue', message: 'must be a valid email address' }],
+      })
+    );
+  });
+});
+
+describe('invitation handlers', () => {
+  it('respond with 400 before running access hooks', async () => {
+    const canAccessInvitationsByTarget = jest.fn(async () => true);
+    const vortex = createVortex({ apiKey: 'instance-key', canAccessInvitationsByTarget });
+    const res = mockRes();
+
+    await vortex.handlers.handleGetInvitationsByTarget(
+      { method: 'GET', headers: {}, query: { targetType: 'fax' } } as any,
+      res
+    );
+
+    expect(canAccessInvitationsByTarget).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({
+      error: expect.objectContaining({
+        code: 'validation_error',
+        details: [
+          { field: 'query.targetType', message: 'must be one of: email, username, phoneNumber' },
+          { field: 'query.targetValue', message: 'is required' },
+        ],
+      }),
+    });
+  });
+
+  it('respond with 400 when the body was not parsed', async () => {
+    const vortex = createVortex({ apiKey: 'instance-key', canAcceptInvitations: async () => true });
+    const res = mockRes();
+
+    await vortex.handlers.handleAcceptInvitations({ method: 'POST', headers: {} } as any, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({
+      error: expect.objectContaining({
+        code: 'validation_error',
+        details: [{ field: 'body', message: 'is required' }],
+      }),
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import type { VortexAnalyticsEvent, VortexWebhookEvent } from '@teamvortexsoftware/vortex-node-22-sdk';
+import { VortexEventBus } from '../src/webhook-events';
+
+function event(type: VortexWebhookEvent['type'], id = 'evt_1'): VortexWebhookEvent {
+  return {
+    id,
+    type,
+    timestamp: new Date().toISOString(),
+    accountId: 'acc_1',
+    environmentId: null,
+    sourceTable: 'invitations',
+    operation: 'update',
+    data: {},
+  };
+}
+
+describe('VortexEventBus', () => {
+  it('emits webhook events to listeners for their type', async () => {
+    const bus = new VortexEventBus();
+    const accepted = jest.fn();
+    const created = jest.fn();
+    bus.on('invitation.accepted', accepted);
+    bus.on('invitation.created', created);
+
+    const accept = event('invitation.accepted');
+    await bus.handlers().onEvent?.(accept);
+
+    expect(accepted).toHaveBeenCalledWith(accept);
+    expect(created).not.toHaveBeenCalled();
+  });
+
+  it('emits analytics events under "analytics"', async () => {
+    const bus = new VortexEventBus();
+    const analytics = jest.fn();
+    bus.on('analytics', analytics);
+
+    const analyticsEvent = { id: 'a_1', name: 'widget_loaded' } as VortexAnalyticsEvent;
+    await bus.handlers().onAnalyticsEvent?.(analyticsEvent);
+
+    expect(analytics).toHaveBeenCalledWith(analyticsEvent);
+  });
+
+  it('runs every listener and fails the delivery when one throws', async () => {
+    const bus = new VortexEventBus();
+    const second = jest.fn();
+    bus.on('invitation.accepted', async () => {
+      throw new Error('provisioning failed');
+    });
+    bus.on('invitation.accepted', second);
+
+    await expect(bus.publish(event('invitation.accepted'))).rejects.toThrow('provisioning failed');
+    expect(second).toHaveBeenCalled();
+  });
+
+  it('removes once listeners after they run', async () => {
+    const bus = new VortexEventBus();
+    const listener = jest.fn();
+    bus.once('invitation.accepted', listener);
+
+    await bus.publish(event('invitation.accepted', 'evt_1'));
+    await bus.publish(event('invitation.accepted', 'evt_2'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('streams events matching a pattern until the consumer stops', async () => {
+    const bus = new VortexEventBus();
+    const stream = bus.stream('invitation.*');
+
+    await bus.publish(event('invitation.accepted', 'evt_1'));
+    await bus.publish(event('member.created', 'evt_2'));
+    await bus.publish(event('invitation.email.delivered', 'evt_3'));
+
+    const received: string[] = [];
+    for await (const streamed of stream) {
+      received.push(streamed.id);
+      if (received.length === 2) break;
+    }
+
+    expect(received).toEqual(['evt_1', 'evt_3']);
+    await bus.publish(event('invitation.accepted', 'evt_4'));
+    expect((bus as any).streams.size).toBe(0);
+  });
+
+  it('ends a stream when its signal is aborted', async () => {
+    const bus = new VortexEventBus();
+    const controller = new AbortController();
+    const stream = bus.stream('*', { signal: controller.signal });
+
+    const next = stream.next();
+    await bus.publish(event('invitation.accepted'));
+    expect((await next).value).toMatchObject({ id: 'evt_1' });
+
+    const pending = stream.next();
+    controller.abort();
+    expect(await pending).toEqual({ done: true, value: undefined });
+  });
+});
@@ -0,0 +1,134 @@
+import crypto from 'node:crypto';
+import { mkdir, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { VortexWebhooks, VortexWebhookEvent } from '@teamvortexsoftware/vortex-node-22-sdk';
+import { createVortexWebhookHandler } from '../src/handlers/webhooks';
+import { createVortexWebhookWorker, FileWebhookQueue, MemoryWebhookQueue } from '../src/webhook-queue';
+
+const TEST_SECRET = 'whsec_test_secret';
+const webhooks = new VortexWebhooks({ secret: TEST_SECRET });
+
+function sampleEvent(id = 'evt_1'): VortexWebhookEvent {
+  return {
+    id,
+    type: 'invitation.accepted',
+    timestamp: new Date().toISOString(),
+    accountId: 'acc_1',
+    environmentId: null,
+    sourceTable: 'invitations',
+    operation: 'update',
+    data: { targetEmail: 'user@test.com' },
+  };
+}
+
+function mockRes() {
+  const res: any = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+describe('webhook queue', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('acknowledges with 202 and queues the event instead of running handlers', async () => {
+    const queue = new MemoryWebhookQueue();
+    const onEvent = jest.fn(async () => {});
+    const handler = createVortexWebhookHandler(webhooks, { onEvent }, { queue });
+
+    const event = sampleEvent();
+    const payload = JSON.stringify(event);
+    const signature = crypto.createHmac('sha256', TEST_SECRET).update(payload).digest('hex');
+    const res = mockRes();
+    await handler({ headers: { 'x-vortex-signature': signature }, body: payload } as any, res, jest.fn());
+
+    expect(res.status).toHaveBeenCalledWith(202);
+    expect(onEvent).not.toHaveBeenCalled();
+
+    const worker = createVortexWebhookWorker(webhooks, { onEvent }, { queue });
+    expect(await worker.processNext()).toBe(true);
+    expect(onEvent).toHaveBeenCalledWith(event);
+    expect(await worker.processNext()).toBe(false);
+  });
+
+  it('retries failed events with exponential backoff', async () => {
+    let now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const queue = new MemoryWebhookQueue();
+    await queue.enqueue(sampleEvent());
+    const onEvent = jest.fn<() => Promise<void>>().mockRejectedValue(new Error('ingest failed'));
+    const worker = createVortexWebhookWorker(webhooks, { onEvent }, { queue, initialDelayMs: 1000 });
+
+    expect(await worker.processNext()).toBe(true);
+    now += 999;
+    expect(await worker.processNext()).toBe(false);
+    now += 1;
+    expect(await worker.processNext()).toBe(true);
+    now += 1999;
+    expect(await worker.processNext()).toBe(false);
+    now += 1;
+    expect(await worker.processNext()).toBe(true);
+
+    expect(onEvent).toHaveBeenCalledTimes(3);
+  });
+
+  it('dead-letters events after maxAttempts', async () => {
+    const queue = new MemoryWebhookQueue();
+    await queue.enqueue(sampleEvent());
+    const onDeadLetter = jest.fn();
+    const worker = createVortexWebhookWorker(
+      webhooks,
+      { onEvent: jest.fn<() => Promise<void>>().mockRejectedValue(new Error('ingest failed')) },
+      { queue, maxAttempts: 2, initialDelayMs: 0, onDeadLetter }
+    );
+
+    await worker.processNext();
+    await worker.processNext();
+
+    expect(onDeadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'evt_1', attempts: 2, lastError: 'ingest failed' }),
+      expect.objectContaining({ message: 'ingest failed' })
+    );
+    expect(await queue.claim(0)).toBeUndefined();
+  });
+
+  it('keeps events queued in a file across restarts', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'vortex-queue-'));
+    try {
+      const filePath = join(dir, 'queue.json');
+      const event = sampleEvent();
+      await new FileWebhookQueue(filePath).enqueue(event);
+
+      const onEvent = jest.fn(async () => {});
+      const worker = createVortexWebhookWorker(webhooks, { onEvent }, { queue: new FileWebhookQueue(filePath) });
+      expect(await worker.processNext()).toBe(true);
+      expect(onEvent).toHaveBeenCalledWith(event);
+
+      expect(await new FileWebhookQueue(filePath).claim(0)).toBeUndefined();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('leaves the file queue unchanged when writing it fails', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'vortex-queue-'));
+    try {
+      const filePath = join(dir, 'queue.json');
+      const queue = new FileWebhookQueue(filePath);
+      // A directory in place of the temporary file makes the write fail
+      await mkdir(`${filePath}.tmp`);
+
+      await expect(queue.enqueue(sampleEvent())).rejects.toThrow();
+
+      await rm(`${filePath}.tmp`, { recursive: true });
+      expect(await queue.claim(0)).toBeUndefined();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import type { VortexWebhookEvent } from '@teamvortexsoftware/vortex-node-22-sdk';
+import { VortexValidationError } from '../src/errors';
+import { schema } from '../src/validation';
+import { vortexWebhookRouter, WebhookRouterEvent } from '../src/webhook-router';
+
+function event(type: VortexWebhookEvent['type'], data: Record<string, unknown>): VortexWebhookEvent {
+  return {
+    id: 'evt_1',
+    type,
+    timestamp: new Date().toISOString(),
+    accountId: 'acc_1',
+    environmentId: null,
+    sourceTable: 'invitations',
+    operation: 'update',
+    data,
+  };
+}
+
+const acceptedSchema = schema.object({ invitationId: schema.id(), targetEmail: schema.email() });
+
+describe('vortexWebhookRouter', () => {
+  it('passes validated data to the handler for the event type', async () => {
+    const accepted = jest.fn();
+    const router = vortexWebhookRouter()
+      .on('invitation.accepted', acceptedSchema, accepted)
+      .on('member.created', schema.object({ userId: schema.id() }), jest.fn());
+
+    // The router's event union narrows on `type`
+    const check = (handled: WebhookRouterEvent<typeof router>): string =>
+      handled.type === 'invitation.accepted' ? handled.data.targetEmail : handled.data.userId;
+    expect(check).toBeDefined();
+
+    await router.dispatch(
+      event('invitation.accepted', { invitationId: 'inv_1', targetEmail: 'user@test.com', extra: true })
+    );
+
+    expect(accepted).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'invitation.accepted',
+        data: { invitationId: 'inv_1', targetEmail: 'user@test.com' },
+      })
+    );
+  });
+
+  it('sends unknown and malformed events to onUnhandled', async () => {
+    const accepted = jest.fn();
+    const onUnhandled = jest.fn();
+    const router = vortexWebhookRouter().on('invitation.accepted', acceptedSchema, accepted).onUnhandled(onUnhandled);
+
+    const unknown = event('member.created', { userId: 'u_1' });
+    await router.dispatch(unknown);
+    const malformed = event('invitation.accepted', { invitationId: 'inv_1', targetEmail: 42 });
+    await router.dispatch(malformed);
+
+    expect(accepted).not.toHaveBeenCalled();
+    expect(onUnhandled).toHaveBeenCalledWith({ reason: 'unknown', event: unknown });
+    expect(onUnhandled).toHaveBeenCalledWith({
+      reason: 'invalid',
+      event: malformed,
+      issues: [{ field: 'data.targetEmail', message: 'must be a string' }],
+    });
+  });
+
+  it('fails malformed events when there is no onUnhandled callback', async () => {
+    const router = vortexWebhookRouter().on('invitation.accepted', acceptedSchema, jest.fn());
+
+    await expect(router.dispatch(event('invitation.accepted', {}))).rejects.toBeInstanceOf(VortexValidationError);
+    await expect(router.dispatch(event('member.created', {}))).resolves.toBeUndefined();
+  });
+
+  it('rejects a second route for the same event type', () => {
+    const router = vortexWebhookRouter().on('invitation.accepted', acceptedSchema, jest.fn());
+
+    expect(() => router.on('invitation.accepted', acceptedSchema, jest.fn())).toThrow(/already registered/);
+  });
+
+  it('builds webhook handlers that dispatch through the router', async () => {
+    const accepted = jest.fn();
+    const onAnalyticsEvent = jest.fn();
+    const handlers = vortexWebhookRouter()
+      .on('invitation.accepted', acceptedSchema, accepted)
+      .handlers({ onAnalyticsEvent });
+
+    await handlers.onEvent?.(event('invitation.accepted', { invitationId: 'inv_1', targetEmail: 'user@test.com' }));
+
+    expect(accepted).toHaveBeenCalled();
+    expect(handlers.onAnalyticsEvent).toBe(onAnalyticsEvent);
+  });
+});
@@ -1,6 +1,9 @@
 import crypto from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { gzipSync } from 'node:zlib';
+import express from 'express';
 import { describe, it, expect, jest, beforeEach } from '@jest/globals';
-import { createVortexWebhookHandler } from '../src/handlers/webhooks';
+import { captureVortexRawBody, createVortexWebhookHandler } from '../src/handlers/webhooks';
 import { VortexWebhooks, WebhookHandlers, VortexWebhookEvent } from '@teamvortexsoftware/vortex-node-22-sdk';
 
 const TEST_SECRET = 'whsec_test_secret';
@@ -118,3 +121,86 @@ describe('createVortexWebhookHandler (Express)', () => {
     expect(res.status).toHaveBeenCalledWith(200);
   });
 });
+
+describe('createVortexWebhookHandler raw body', () => {
+  const webhooks = new VortexWebhooks({ secret: TEST_SECRET });
+
+  async function post(app: express.Express, body: Buffer, headers: Record<string, string> = {}) {
+    const server = app.listen(0);
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await fetch(`http://127.0.0.1:${port}/webhooks`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body,
+      });
+      return { status: response.status, body: await response.json() };
+    } finally {
+      server.close();
+    }
+  }
+
+  function createApp(parser?: express.RequestHandler) {
+    const onEvent = jest.fn(async () => {});
+    const app = express();
+    if (parser) app.use(parser);
+    app.post('/webhooks', createVortexWebhookHandler(webhooks, { onEvent }));
+    return { app, onEvent };
+  }
+
+  const payload = () => JSON.stringify({ ...sampleEvent, timestamp: new Date().toISOString() });
+
+  it('reads the body itself when no body parser ran', async () => {
+    const { app, onEvent } = createApp();
+    const body = payload();
+    const result = await post(app, Buffer.from(body), { 'x-vortex-signature': sign(body) });
+    expect(result).toEqual({ status: 200, body: { received: true } });
+    expect(onEvent).toHaveBeenCalled();
+  });
+
+  it('uses the raw body captured by a global express.json()', async () => {
+    const { app, onEvent } = createApp(express.json({ verify: captureVortexRawBody }));
+    const body = payload();
+    const result = await post(app, Buffer.from(body), { 'x-vortex-signature': sign(body) });
+    expect(result.status).toBe(200);
+    expect(onEvent).toHaveBeenCalled();
+  });
+
+  it('verifies gzip-encoded payloads against the decompressed body', async () => {
+    const body = payload();
+    const headers = { 'x-vortex-signature': sign(body), 'content-encoding': 'gzip' };
+
+    const captured = createApp(express.json({ verify: captureVortexRawBody }));
+    expect((await post(captured.app, gzipSync(body), headers)).status).toBe(200);
+
+    const unparsed = createApp();
+    expect((await post(unparsed.app, gzipSync(body), headers)).status).toBe(200);
+  });
+
+  it('decompresses gzip bodies handed over by a parser that did not inflate them', async () => {
+    const body = payload();
+    const handler = createVortexWebhookHandler(webhooks, {});
+    const req = mockReq({ body: gzipSync(body), headers: { 'x-vortex-signature': sign(body) } });
+    const res = mockRes();
+    await handler(req, res, jest.fn());
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it('rejects gzip bodies that inflate past the size limit', async () => {
+    const body = JSON.stringify({ ...JSON.parse(payload()), padding: 'x'.repeat(10_000) });
+    const handler = createVortexWebhookHandler(webhooks, {}, { maxBodyBytes: 1024 });
+    const req = mockReq({ body: gzipSync(body), headers: { 'x-vortex-signature': sign(body) } });
+    const res = mockRes();
+    await handler(req, res, jest.fn());
+    expect(res.status).toHaveBeenCalledWith(413);
+  });
+
+  it('returns 500 when express.json() consumed the body without capturing it', async () => {
+    const { app, onEvent } = createApp(express.json());
+    const body = payload();
+    const result = await post(app, Buffer.from(body), { 'x-vortex-signature': sign(body) });
+    expect(result.status).toBe(500);
+    expect(result.body.error).toContain('captureVortexRawBody');
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+});
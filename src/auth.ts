@@ -0,0 +1,350 @@
+import {
+  JsonWebKey,
+  KeyObject,
+  constants,
+  createHmac,
+  createPublicKey,
+  timingSafeEqual,
+  verify,
+} from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { NextFunction, Request, Response } from 'express';
+import { AuthenticatedUser, VortexConfig, authenticateRequest } from './config';
+import { VortexUnauthorizedError } from './errors';
+import { handleVortexError } from './utils';
+
+/**
+ * The `authenticateUser` hook returned by the adapters
+ */
+export type AuthenticateUserHook = NonNullable<VortexConfig['authenticateUser']>;
+
+export interface VortexAuthOptions {
+  /** Respond 401 to anonymous requests instead of passing them on */
+  required?: boolean;
+}
+
+/**
+ * Middleware that runs authenticateUser once and keeps the user in
+ * `res.locals.vortexUser`, where Vortex handlers, hooks and your own routes
+ * read it instead of authenticating again.
+ *
+ * @example
+ * ```typescript
+ * app.use('/api', vortexAuth());
+ * app.use('/api/vortex', createVortexRouter());
+ * app.get('/api/me', vortexAuth({ required: true }), (req, res) => res.json(res.locals.vortexUser));
+ * ```
+ */
+export function vortexAuth(
+  options: VortexAuthOptions = {}
+): (req: Request, res: Response, next: NextFunction) => Promise<void> {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await authenticateRequest(req, res);
+      if (!user && options.required) {
+        throw new VortexUnauthorizedError();
+      }
+    } catch (error) {
+      await handleVortexError(req, res, error, 'vortexAuth');
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Maps what an auth stack knows about the request's user to an
+ * AuthenticatedUser. Return null to treat the request as anonymous.
+ */
+export type AuthenticatedUserMapper<T> = (
+  value: T,
+  request: Request
+) => AuthenticatedUser | null | Promise<AuthenticatedUser | null>;
+
+/**
+ * Creates an authenticateUser hook for apps using Passport, from the user it
+ * deserialized into `req.user`.
+ *
+ * @example
+ * ```typescript
+ * configureVortex({
+ *   apiKey: process.env.VORTEX_API_KEY!,
+ *   authenticateUser: createPassportAuth((user: User) => ({ userId: user.id, userEmail: user.email })),
+ * });
+ * ```
+ */
+export function createPassportAuth<TUser>(map: AuthenticatedUserMapper<TUser>): AuthenticateUserHook {
+  return async (request: Request) => {
+    const passportRequest = request as Request & { user?: TUser; isAuthenticated?: () => boolean };
+    if (passportRequest.isAuthenticated && !passportRequest.isAuthenticated()) {
+      return null;
+    }
+    if (passportRequest.user === undefined || passportRequest.user === null) {
+      return null;
+    }
+    return map(passportRequest.user, request);
+  };
+}
+
+/**
+ * Creates an authenticateUser hook for apps using express-session, from the
+ * request's session. The mapper should return null when no one is logged in.
+ *
+ * @example
+ * ```typescript
+ * authenticateUser: createSessionAuth((session: SessionData) =>
+ *   session.userId ? { userId: session.userId, userEmail: session.email } : null
+ * ),
+ * ```
+ */
+export function createSessionAuth<TSession>(map: AuthenticatedUserMapper<TSession>): AuthenticateUserHook {
+  return async (request: Request) => {
+    const session = (request as Request & { session?: TSession }).session;
+    if (session === undefined || session === null) {
+      return null;
+    }
+    return map(session, request);
+  };
+}
+
+/**
+ * Keys to verify bearer tokens with: a JWKS URL, a local JWKS file (e.g. in
+ * tests), or the keys themselves
+ */
+export type JwksSource =
+  | {
+      url: string;
+      /** How long fetched keys are reused, in milliseconds (default 10 minutes) */
+      cacheMs?: number;
+    }
+  | { file: string }
+  | { keys: JsonWebKey[] };
+
+export interface BearerJwtAuthOptions<TClaims> {
+  /** Shared secret for HS256/384/512 tokens */
+  secret?: string | Buffer;
+  /** Public keys for RS, PS, ES and EdDSA tokens, selected by the token's `kid` */
+  jwks?: JwksSource;
+  /** Accepted `alg` values (default HS256 with a secret, otherwise every asymmetric algorithm) */
+  algorithms?: string[];
+  /** Required `iss` claim */
+  issuer?: string | string[];
+  /** Required `aud` claim; tokens must include one of these */
+  audience?: string | string[];
+  /** Allowed clock skew for `exp` and `nbf`, in seconds (default 0) */
+  clockToleranceSec?: number;
+  /** Reject tokens without an `exp` claim (default true); tokens without one never expire */
+  requireExpiry?: boolean;
+  /** Reads the token from the request (default: the `Authorization: Bearer` header) */
+  getToken?: (request: Request) => string | null | undefined;
+  /** Maps the verified claims to the user */
+  map: AuthenticatedUserMapper<TClaims>;
+}
+
+const HMAC_ALGORITHMS: Record<string, string> = { HS256: 'sha256', HS384: 'sha384', HS512: 'sha512' };
+
+const ASYMMETRIC_ALGORITHMS: Record<string, { hash: string | null; padding?: number; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', padding: constants.RSA_PKCS1_PSS_PADDING },
+  PS384: { hash: 'sha384', padding: constants.RSA_PKCS1_PSS_PADDING },
+  PS512: { hash: 'sha512', padding: constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+  ES512: { hash: 'sha512', dsaEncoding: 'ieee-p1363' },
+  EdDSA: { hash: null },
+};
+
+// Refetch a JWKS URL for an unknown `kid` at most this often
+const JWKS_REFETCH_COOLDOWN_MS = 30 * 1000;
+
+interface JwksKey {
+  kid?: string;
+  key: KeyObject;
+}
+
+function getBearerToken(request: Request): string | null {
+  const header = request.headers.authorization;
+  const match = typeof header === 'string' ? /^Bearer\s+(\S+)$/i.exec(header) : null;
+  return match?.[1] ?? null;
+}
+
+function decodeSegment(segment: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function toKeys(jwks: unknown): JwksKey[] {
+  const keys = (jwks as { keys?: unknown } | null)?.keys;
+  if (!Array.isArray(keys)) {
+    throw new Error('Invalid JWKS: expected an object with a "keys" array');
+  }
+  return keys
+    .filter((jwk: JsonWebKey) => jwk.use !== 'enc')
+    .map((jwk: JsonWebKey) => ({
+      kid: typeof jwk.kid === 'string' ? jwk.kid : undefined,
+      key: createPublicKey({ key: jwk, format: 'jwk' }),
+    }));
+}
+
+// Loads keys lazily; URL keys are cached and refetched when a token names an unknown kid
+function createKeyResolver(source: JwksSource): (kid: string | undefined) => Promise<JwksKey[]> {
+  let loaded: Promise<JwksKey[]> | undefined;
+  let loadedAt = 0;
+
+  const load = (): Promise<JwksKey[]> => {
+    if ('keys' in source) {
+      return Promise.resolve(toKeys(source));
+    }
+    if ('file' in source) {
+      return readFile(source.file, 'utf8').then((text) => toKeys(JSON.parse(text)));
+    }
+    return fetch(source.url, { headers: { accept: 'application/json' } }).then(async (response) => {
+      if (!response.ok) {
+        throw new Error(`Failed to fetch JWKS from ${source.url}: ${response.status}`);
+      }
+      return toKeys(await response.json());
+    });
+  };
+
+  const refresh = () => {
+    loadedAt = Date.now();
+    loaded = load();
+    // A failed fetch is retried on the next request
+    loaded.catch(() => {
+      loaded = undefined;
+    });
+    return loaded;
+  };
+
+  return async (kid) => {
+    const cacheMs = 'url' in source ? (source.cacheMs ?? 10 * 60 * 1000) : Infinity;
+    let keys = await (loaded && Date.now() - loadedAt < cacheMs ? loaded : refresh());
+    if (
+      'url' in source &&
+      kid !== undefined &&
+      !keys.some((key) => key.kid === kid) &&
+      Date.now() - loadedAt >= JWKS_REFETCH_COOLDOWN_MS
+    ) {
+      keys = await refresh();
+    }
+    return kid === undefined ? keys : keys.filter((key) => key.kid === kid);
+  };
+}
+
+function verifySignature(
+  algorithm: string,
+  signingInput: Buffer,
+  signature: Buffer,
+  secret: Buffer | undefined,
+  keys: JwksKey[]
+): boolean {
+  const hmac = HMAC_ALGORITHMS[algorithm];
+  if (hmac) {
+    if (!secret) return false;
+    const expected = createHmac(hmac, secret).update(signingInput).digest();
+    return expected.length === signature.length && timingSafeEqual(expected, signature);
+  }
+
+  const params = ASYMMETRIC_ALGORITHMS[algorithm];
+  if (!params) return false;
+  return keys.some(({ key }) => {
+    try {
+      return verify(
+        params.hash,
+        signingInput,
+        {
+          key,
+          ...(params.padding !== undefined && {
+            padding: params.padding,
+            saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+          }),
+          ...(params.dsaEncoding && { dsaEncoding: params.dsaEncoding }),
+        },
+        signature
+      );
+    } catch {
+      // The key's type doesn't match the algorithm
+      return false;
+    }
+  });
+}
+
+function includesAny(value: unknown, expected: string | string[]): boolean {
+  const actual = Array.isArray(value) ? value : [value];
+  return [expected].flat().some((item) => actual.includes(item));
+}
+
+/**
+ * Creates an authenticateUser hook that verifies a bearer JWT, with a shared
+ * secret or the keys in a JWKS, and maps its claims to the user. Requests
+ * without a valid token are anonymous.
+ *
+ * @example
+ * ```typescript
+ * authenticateUser: createBearerJwtAuth({
+ *   jwks: { url: 'https://auth.example.com/.well-known/jwks.json' },
+ *   issuer: 'https://auth.example.com/',
+ *   audience: 'api.example.com',
+ *   map: (claims: { sub: string; email: string }) => ({ userId: claims.sub, userEmail: claims.email }),
+ * }),
+ * ```
+ */
+export function createBearerJwtAuth<TClaims = Record<string, unknown>>(
+  options: BearerJwtAuthOptions<TClaims>
+): AuthenticateUserHook {
+  if (!options.secret && !options.jwks) {
+    throw new Error('createBearerJwtAuth requires a secret or jwks');
+  }
+
+  const secret = typeof options.secret === 'string' ? Buffer.from(options.secret) : options.secret;
+  const resolveKeys = options.jwks ? createKeyResolver(options.jwks) : undefined;
+  // Never accept HMAC tokens with only public keys configured, or they could be signed with a public key
+  const algorithms = new Set(
+    options.algorithms ?? (secret ? ['HS256'] : Object.keys(ASYMMETRIC_ALGORITHMS))
+  );
+  const toleranceSec = options.clockToleranceSec ?? 0;
+  const requireExpiry = options.requireExpiry ?? true;
+
+  return async (request: Request) => {
+    const token = (options.getToken ?? getBearerToken)(request);
+    const [headerSegment, payloadSegment, signatureSegment, ...rest] = token?.split('.') ?? [];
+    if (!headerSegment || !payloadSegment || !signatureSegment || rest.length > 0) {
+      return null;
+    }
+
+    const header = decodeSegment(headerSegment);
+    const claims = decodeSegment(payloadSegment);
+    if (!header || !claims || typeof header.alg !== 'string' || !algorithms.has(header.alg)) {
+      return null;
+    }
+
+    const kid = typeof header.kid === 'string' ? header.kid : undefined;
+    const keys = header.alg in HMAC_ALGORITHMS || !resolveKeys ? [] : await resolveKeys(kid);
+    const signingInput = Buffer.from(`${headerSegment}.${payloadSegment}`);
+    if (!verifySignature(header.alg, signingInput, Buffer.from(signatureSegment, 'base64url'), secret, keys)) {
+      return null;
+    }
+
+    const now = Date.now() / 1000;
+    if (typeof claims.exp === 'number' ? now >= claims.exp + toleranceSec : requireExpiry) {
+      return null;
+    }
+    if (typeof claims.nbf === 'number' && now < claims.nbf - toleranceSec) {
+      return null;
+    }
+    if (options.issuer && !includesAny(claims.iss, options.issuer)) {
+      return null;
+    }
+    if (options.audience && !includesAny(claims.aud, options.audience)) {
+      return null;
+    }
+
+    return options.map(claims as TClaims, request);
+  };
+}
@@ -0,0 +1,213 @@
+import { createHash } from 'node:crypto';
+import { Request, Response } from 'express';
+import type { InvitationResult, VortexWebhookEvent } from '@teamvortexsoftware/vortex-node-22-sdk';
+import type { VortexConfig } from './config';
+
+/**
+ * A cached Vortex API result
+ */
+export interface CachedResponse {
+  body: unknown;
+}
+
+/**
+ * Storage for cached read responses. Entries are tagged with the invitations
+ * and scopes they contain, so a change to one invitation or scope drops every
+ * entry that includes it. Implement this to share the cache between
+ * processes, e.g. with Redis using a set per tag.
+ */
+export interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, value: CachedResponse, ttlMs: number, tags: string[]): Promise<void>;
+  /** Removes every entry carrying any of the tags */
+  invalidate(tags: string[]): Promise<void>;
+}
+
+export interface VortexResponseCacheOptions {
+  /** Where responses are stored (defaults to an in-memory store shared by the process) */
+  store?: ResponseCacheStore;
+  /** How long responses are cached, in milliseconds (default 30 seconds) */
+  ttlMs?: number;
+}
+
+const DEFAULT_TTL_MS = 30 * 1000;
+
+/**
+ * Keeps cached responses in process memory
+ */
+export class MemoryResponseCacheStore implements ResponseCacheStore {
+  private readonly entries = new Map<string, { value: CachedResponse; expiresAt: number; tags: string[] }>();
+  private readonly keysByTag = new Map<string, Set<string>>();
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: CachedResponse, ttlMs: number, tags: string[]): Promise<void> {
+    this.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs, tags });
+    for (const tag of tags) {
+      let keys = this.keysByTag.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.keysByTag.set(tag, keys);
+      }
+      keys.add(key);
+    }
+  }
+
+  async invalidate(tags: string[]): Promise<void> {
+    for (const tag of tags) {
+      for (const key of this.keysByTag.get(tag) ?? []) {
+        this.delete(key);
+      }
+    }
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.keysByTag.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.keysByTag.delete(tag);
+    }
+  }
+}
+
+let defaultStore: MemoryResponseCacheStore | undefined;
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function getCache(config: VortexConfig): { store: ResponseCacheStore; ttlMs: number; namespace: string } | null {
+  if (!config.responseCache) {
+    return null;
+  }
+  return {
+    store: config.responseCache.store ?? (defaultStore ??= new MemoryResponseCacheStore()),
+    ttlMs: config.responseCache.ttlMs ?? DEFAULT_TTL_MS,
+    // Entries are namespaced per API key so instances sharing a store don't see each other's data
+    namespace: hash(config.apiKey).slice(0, 16),
+  };
+}
+
+export const invitationTag = (invitationId: string) => `invitation:${invitationId}`;
+export const scopeTag = (scopeType: string, scopeId: string) => `scope:${scopeType}:${scopeId}`;
+
+/**
+ * Tags for an invitation: its own ID and the scopes it belongs to
+ */
+export function getInvitationTags(invitation: InvitationResult): string[] {
+  const scopes = invitation.scopes ?? invitation.groups ?? [];
+  return [
+    invitationTag(invitation.id),
+    ...scopes.flatMap((scope) => {
+      const scopeId = scope.scopeId ?? scope.groupId;
+      return scopeId ? [scopeTag(scope.type, scopeId)] : [];
+    }),
+  ];
+}
+
+/**
+ * Returns a cached Vortex API result, or fetches and caches it when the
+ * config has responseCache enabled.
+ */
+export async function getCachedVortexData<T>(
+  config: VortexConfig,
+  key: string,
+  fetch: () => Promise<T>,
+  getTags: (value: T) => string[]
+): Promise<T> {
+  const cache = getCache(config);
+  if (!cache) {
+    return fetch();
+  }
+
+  const cacheKey = `${cache.namespace}:${key}`;
+  const cached = await cache.store.get(cacheKey);
+  if (cached) {
+    return cached.body as T;
+  }
+
+  const value = await fetch();
+  const tags = getTags(value).map((tag) => `${cache.namespace}:${tag}`);
+  await cache.store.set(cacheKey, { body: value }, cache.ttlMs, tags);
+  return value;
+}
+
+/**
+ * Drops cached responses that include any of the given invitations or scopes
+ */
+export async function invalidateVortexCache(config: VortexConfig, tags: string[]): Promise<void> {
+  const cache = getCache(config);
+  if (!cache || tags.length === 0) {
+    return;
+  }
+  try {
+    await cache.store.invalidate(tags.map((tag) => `${cache.namespace}:${tag}`));
+  } catch (error) {
+    // The change itself succeeded; stale entries expire after ttlMs
+    console.error('Failed to invalidate Vortex response cache:', error);
+  }
+}
+
+/**
+ * Tags affected by a webhook event, from the invitation ID and the scope in its data
+ */
+export function getWebhookEventTags(event: VortexWebhookEvent): string[] {
+  const { data } = event;
+  const tags: string[] = [];
+
+  const invitationId = data.invitationId ?? (event.type.startsWith('invitation.') ? data.id : undefined);
+  if (typeof invitationId === 'string') {
+    tags.push(invitationTag(invitationId));
+  }
+  const scopeId = data.scopeId ?? data.groupId;
+  const scopeType = data.scopeType ?? data.groupType;
+  if (typeof scopeId === 'string' && typeof scopeType === 'string') {
+    tags.push(scopeTag(scopeType, scopeId));
+  }
+  return tags;
+}
+
+function createEtag(body: unknown): string {
+  return `"${hash(JSON.stringify(body) ?? '').slice(0, 32)}"`;
+}
+
+function matchesEtag(header: string | undefined, etag: string): boolean {
+  if (!header) return false;
+  return header === '*' || header.split(',').some((value) => value.trim().replace(/^W\//, '') === etag);
+}
+
+/**
+ * Sends a read response with an ETag when responseCache is enabled,
+ * answering 304 when it matches the request's If-None-Match header.
+ */
+export function sendCacheableResponse(
+  req: Request,
+  res: Response,
+  config: VortexConfig,
+  data: unknown
+): Response {
+  if (!config.responseCache) {
+    return res.status(200).json(data);
+  }
+
+  const etag = createEtag(data);
+  res.setHeader('ETag', etag);
+  // Responses depend on the user's access, so only the browser may reuse them after revalidating
+  res.setHeader('Cache-Control', 'private, no-cache');
+  if (matchesEtag(req.headers?.['if-none-match'], etag)) {
+    return res.status(304).end();
+  }
+  return res.status(200).json(data);
+}
@@ -0,0 +1,187 @@
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { Request, Response } from 'express';
+import {
+  Vortex,
+  ApiRequestBody,
+  ApiResponseJson,
+  InvitationResult,
+} from '@teamvortexsoftware/vortex-node-22-sdk';
+import { getCachedVortexData, getInvitationTags } from './cache';
+import { VortexConfig, getRequestVortexConfig } from './config';
+import { VortexApiError, VortexUpstreamError } from './errors';
+
+const DEFAULT_API_BASE_URL = 'https://api.vortexsoftware.com';
+
+// Requests identify as the Node SDK, as they would if it sent them. It doesn't
+// export its version, so that is read from the installed package.
+const SDK_NAME = 'vortex-node-sdk';
+const SDK_VERSION = getSdkVersion();
+
+function getSdkVersion(): string {
+  try {
+    const entry = require.resolve('@teamvortexsoftware/vortex-node-22-sdk');
+    return JSON.parse(readFileSync(join(dirname(entry), '..', 'package.json'), 'utf8')).version;
+  } catch {
+    return 'unknown';
+  }
+}
+
+export interface VortexClientOptions {
+  /** Abort Vortex API requests that take longer than this many milliseconds */
+  timeoutMs?: number;
+  /** Custom fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /**
+   * Dispatcher passed through to fetch, e.g. an undici `Agent` configured
+   * with keep-alive and connection pooling options
+   */
+  dispatcher?: unknown;
+}
+
+/**
+ * Vortex API client that honors the configured base URL and client options.
+ * Extends the Node SDK client and replaces its request function, so every SDK
+ * method goes through the same request pipeline without touching globals.
+ */
+export class VortexClient extends Vortex {
+  private readonly clientApiKey: string;
+  private readonly baseUrl: string;
+  private readonly options: VortexClientOptions;
+
+  constructor(apiKey: string, baseUrl?: string, options: VortexClientOptions = {}) {
+    super(apiKey);
+    this.clientApiKey = apiKey;
+    this.baseUrl = (baseUrl || DEFAULT_API_BASE_URL).replace(/\/$/, '');
+    this.options = options;
+  }
+
+  override async vortexApiRequest(options: {
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+    path: string;
+    body?: ApiRequestBody;
+    queryParams?: Record<string, string | number | boolean>;
+  }): Promise<ApiResponseJson> {
+    const { method, path, body, queryParams } = options;
+    const url = new URL(`${this.baseUrl}${path}`);
+    if (queryParams) {
+      Object.entries(queryParams).forEach(([key, value]) => {
+        url.searchParams.append(key, String(value));
+      });
+    }
+
+    const fetchImpl = this.options.fetch ?? fetch;
+    const init: RequestInit & { dispatcher?: unknown } = {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.clientApiKey,
+        'x-vortex-sdk-name': SDK_NAME,
+        'x-vortex-sdk-version': SDK_VERSION,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    };
+    if (this.options.timeoutMs) {
+      init.signal = AbortSignal.timeout(this.options.timeoutMs);
+    }
+    if (this.options.dispatcher) {
+      init.dispatcher = this.options.dispatcher;
+    }
+
+    let results: globalThis.Response;
+    try {
+      results = await fetchImpl(url.toString(), init);
+    } catch (error) {
+      if ((error as { name?: string } | null)?.name === 'TimeoutError') {
+        throw new VortexUpstreamError(
+          `Vortex API request timed out after ${this.options.timeoutMs}ms`,
+          undefined,
+          error
+        );
+      }
+      throw error;
+    }
+
+    if (!results.ok) {
+      const errorBody = await results.text();
+      throw new VortexApiError(results.status, results.statusText, errorBody);
+    }
+
+    const contentLength = results.headers.get('content-length');
+    const contentType = results.headers.get('content-type');
+    if (contentLength === '0' || (!contentType?.includes('application/json') && !contentLength)) {
+      return {};
+    }
+
+    const responseText = await results.text();
+    if (!responseText.trim()) {
+      return {};
+    }
+    try {
+      return JSON.parse(responseText);
+    } catch {
+      return {};
+    }
+  }
+}
+
+// Clients are cached per client options object, then per API key and base URL
+const DEFAULT_CLIENT_OPTIONS: VortexClientOptions = {};
+const clientCache = new WeakMap<VortexClientOptions, Map<string, VortexClient>>();
+
+/**
+ * Returns the cached Vortex client for a configuration, creating it on first use.
+ */
+export function getVortexClient(config: VortexConfig): VortexClient {
+  const options = config.client ?? DEFAULT_CLIENT_OPTIONS;
+  let clients = clientCache.get(options);
+  if (!clients) {
+    clients = new Map();
+    clientCache.set(options, clients);
+  }
+
+  const key = `${config.apiKey}\n${config.apiBaseUrl ?? ''}`;
+  let client = clients.get(key);
+  if (!client) {
+    client = new VortexClient(config.apiKey, config.apiBaseUrl, options);
+    clients.set(key, client);
+  }
+  return client;
+}
+
+// Invitations are fetched once per request, even when hooks, policies and the
+// handler all need them
+const requestInvitations = new WeakMap<Request, Map<string, Promise<InvitationResult>>>();
+
+/**
+ * Fetches an invitation using the request's configuration, reusing the result
+ * if it was already fetched while handling this request or is in the
+ * response cache.
+ */
+export function getRequestInvitation(
+  request: Request,
+  response: Response,
+  invitationId: string
+): Promise<InvitationResult> {
+  let invitations = requestInvitations.get(request);
+  if (!invitations) {
+    invitations = new Map();
+    requestInvitations.set(request, invitations);
+  }
+
+  let invitation = invitations.get(invitationId);
+  if (!invitation) {
+    invitation = getRequestVortexConfig(request, response).then((config) =>
+      getCachedVortexData(
+        config,
+        `invitation:${invitationId}`,
+        () => getVortexClient(config).getInvitation(invitationId),
+        getInvitationTags
+      )
+    );
+    invitations.set(invitationId, invitation);
+    // Don't cache failures, so a later call can retry
+    invitation.catch(() => invitations.delete(invitationId));
+  }
+  return invitation;
+}
@@ -1,4 +1,21 @@
 import { Request, Response } from 'express';
+import type { Inviter, InvitationResult } from '@teamvortexsoftware/vortex-node-22-sdk';
+import type { VortexClientOptions } from './client';
+import type { VortexResponseCacheOptions } from './cache';
+import { VortexAuthenticationError, VortexHttpError, VortexUnauthorizedError } from './errors';
+import type { VortexIdempotencyOptions } from './idempotency';
+import type { VortexJwtOptions } from './jwt';
+import type { VortexRateLimitOptions } from './rate-limit';
+import type { VortexEventsOptions } from './webhook-events';
+import type { ValidationLimits } from './validators';
+import type {
+  InvitationParams,
+  ScopeParams,
+  AcceptInvitationsBody,
+  SyncInternalInvitationBody,
+  CreateInvitationBody,
+} from './schemas';
+import { resolveRequestTenant, applyTenant } from './tenants';
 
 export interface AuthenticatedUser {
   userId: string;
@@ -11,11 +28,16 @@ export interface AuthenticatedUser {
   userName?: string;
   /** @deprecated Use avatarUrl instead */
   userAvatarUrl?: string;
+  /**
+   * IDs of the scopes this user administers. Unless overridden by a hook,
+   * only scope admins may revoke, reinvite or delete the scope's invitations.
+   */
   adminScopes?: string[];
   /**
    * Optional list of allowed email domains for invitation restrictions.
    * When present, email invitations will only be allowed to addresses
    * matching one of these domains (e.g., ['acme.com', 'acme.org']).
+   * Enforced on create and reinvite unless overridden by a hook.
    */
   allowedEmailDomains?: string[];
 
@@ -28,40 +50,30 @@ export interface AuthenticatedUser {
   attributes?: Record<string, any>;
 }
 
-// Resource types for access control hooks
-export interface InvitationResource {
-  invitationId: string;
-}
+// Resource types for access control hooks, inferred from the request schemas
+export type InvitationResource = InvitationParams & {
+  /** The fetched invitation, when fetchInvitationForHooks is enabled */
+  invitation?: InvitationResult;
+};
 
-export interface SyncInternalInvitationResource {
-  creatorId: string;
-  targetValue: string;
-  action: string;
-  componentId: string;
-}
+export type SyncInternalInvitationResource = SyncInternalInvitationBody;
 
-export interface InvitationTargetResource {
-  invitationIds: string[];
-  target?: {
-    type: string;
-    value: string;
-  };
-  user?: {
-    email?: string;
-    phone?: string;
-    name?: string;
-  };
-}
+export type InvitationTargetResource = AcceptInvitationsBody;
 
-export interface ScopeResource {
-  scopeType: string;
-  scope: string;
-}
+export type ScopeResource = ScopeParams;
 
 /** @deprecated Use ScopeResource instead */
-export interface GroupResource {
-  scopeType: string;
-  scope: string;
+export type GroupResource = ScopeParams;
+
+export interface CreateInvitationResource {
+  target: CreateInvitationBody['target'];
+  scope?: {
+    scopeId?: string;
+    scopeType?: string;
+    scopeName?: string;
+  };
+  /** The authenticated user creating the invitation */
+  inviter: Inviter;
 }
 
 // Generic access control hook for Express
@@ -78,6 +90,7 @@ export interface AccessControlHook<T = unknown> {
 export type InvitationAccessHook = AccessControlHook<InvitationResource>;
 export type InvitationTargetAccessHook = AccessControlHook<InvitationTargetResource>;
 export type SyncInternalInvitationAccessHook = AccessControlHook<SyncInternalInvitationResource>;
+export type CreateInvitationAccessHook = AccessControlHook<CreateInvitationResource>;
 export type ScopeAccessHook = AccessControlHook<ScopeResource>;
 /** @deprecated Use ScopeAccessHook instead */
 export type GroupAccessHook = ScopeAccessHook;
@@ -86,7 +99,71 @@ export type BasicAccessHook = AccessControlHook<void>;
 export interface VortexConfig {
   apiKey: string;
   apiBaseUrl?: string;
+  /** Options for the Vortex API client (timeouts, keep-alive, custom fetch) */
+  client?: VortexClientOptions;
+  /**
+   * Idempotency-Key handling for mutating routes. Uses an in-memory store by
+   * default; pass `false` to ignore the header.
+   */
+  idempotency?: VortexIdempotencyOptions | false;
+  /**
+   * Cache Vortex API results for the read routes and send ETags. Entries are
+   * invalidated by mutations through the router and by webhook events.
+   */
+  responseCache?: VortexResponseCacheOptions;
+  /** Lifetime, extra claims and caching of the tokens issued by the JWT routes */
+  jwt?: VortexJwtOptions;
+  /** Per-route request budgets. Routes are not rate limited unless this is set. */
+  rateLimit?: VortexRateLimitOptions;
+  /**
+   * Enables the `GET /events` route, which streams invitation events from
+   * webhooks to browsers. Each event is only sent to connections allowed
+   * by canAccessInvitationsByScope for the event's scope.
+   */
+  events?: VortexEventsOptions;
+  /** Maximum lengths for validated request fields, by kind of field */
+  validationLimits?: Partial<ValidationLimits>;
+  /**
+   * Called when a handler fails, with the error about to be sent (the original
+   * error is available as `cause`). Return a VortexHttpError to send instead.
+   */
+  onError?: (
+    error: VortexHttpError,
+    request: Request,
+    response: Response
+  ) => void | VortexHttpError | Promise<void | VortexHttpError>;
   authenticateUser?: (request: Request, response: Response) => Promise<AuthenticatedUser | null>;
+  /**
+   * Called when authenticateUser throws. Return a user (or null for an
+   * anonymous request) to continue with it, or a VortexHttpError to send
+   * instead; otherwise the request fails with 503.
+   */
+  onAuthError?: (
+    error: unknown,
+    request: Request,
+    response: Response
+  ) =>
+    | AuthenticatedUser
+    | null
+    | void
+    | VortexHttpError
+    | Promise<AuthenticatedUser | null | void | VortexHttpError>;
+  /**
+   * Respond 401 to anonymous requests on the invitation and event routes
+   * before any access control hook runs, instead of leaving them to the
+   * hooks (which respond 403 when they deny access).
+   */
+  strictAuth?: boolean;
+  /**
+   * Returns claims to add to the user's JWT, e.g. values derived from the
+   * user. Applied after jwt.claims. Claims the token sets from the user, such
+   * as `userId`, `adminScopes` and `allowedEmailDomains`, are dropped, so
+   * they can't be overridden.
+   */
+  mapJwtClaims?: (
+    user: AuthenticatedUser,
+    request: Request
+  ) => Record<string, unknown> | Promise<Record<string, unknown>>;
   // Access control hooks for invitation endpoints
   canAccessInvitationsByTarget?: BasicAccessHook;
   canAccessInvitation?: InvitationAccessHook;
@@ -100,8 +177,40 @@ export interface VortexConfig {
   canDeleteInvitationsByGroup?: ScopeAccessHook;
   canReinvite?: InvitationAccessHook;
   canSyncInternalInvitation?: SyncInternalInvitationAccessHook;
+  canCreateInvitation?: CreateInvitationAccessHook;
+  /**
+   * Require the user's adminScopes to include the scope before revoking,
+   * reinviting or deleting invitations on routes without a can* hook.
+   * Off by default, which lets any authenticated user use those routes.
+   */
+  enforceAdminScopes?: boolean;
+  /**
+   * Fetch the invitation before calling canAccessInvitation, canDeleteInvitation
+   * and canReinvite, and pass it to them as `resource.invitation` so they can
+   * check its creator, targets and scopes. Unknown invitations respond 404
+   * before the hook is called.
+   */
+  fetchInvitationForHooks?: boolean;
+  /**
+   * Resolves the tenant a request belongs to in multi-tenant setups.
+   * The tenant's API key, base URL and hooks override this config for the
+   * request; return null to use this config as-is.
+   */
+  resolveTenant?: (request: Request) => Promise<VortexTenant | null>;
+  /**
+   * Identifies the tenant of a request without resolving it. When set,
+   * resolveTenant results are cached per tenant ID for tenantCacheTtlMs.
+   */
+  getTenantId?: (request: Request) => string | null | Promise<string | null>;
+  /** How long resolved tenants are cached, in milliseconds (default 5 minutes) */
+  tenantCacheTtlMs?: number;
 }
 
+/**
+ * Per-tenant settings returned by resolveTenant
+ */
+export type VortexTenant = Omit<VortexConfig, 'resolveTenant' | 'getTenantId' | 'tenantCacheTtlMs'>;
+
 // Store configuration template (immutable after first set)
 let configTemplate: VortexConfig | null = null;
 let isConfigLocked = false;
@@ -116,7 +225,7 @@ export function configureVortex(config: VortexConfig): void {
   }
 
   // Validate required config
-  if (!config.apiKey && !process.env.VORTEX_API_KEY) {
+  if (!config.apiKey && !process.env.VORTEX_API_KEY && !config.resolveTenant) {
     throw new Error('API key is required in config or VORTEX_API_KEY environment variable');
   }
 
@@ -159,57 +268,178 @@ export async function getVortexConfig(): Promise<VortexConfig> {
     await configPromise;
   }
 
-  // Create a fresh config for each request
+  return resolveVortexConfig(configTemplate);
+}
+
+/**
+ * Build a fresh per-request config from a template, applying environment
+ * variable fallbacks for the API key and base URL.
+ */
+function resolveVortexConfig(template: VortexConfig | null): VortexConfig {
   const baseConfig: VortexConfig = {
-    apiKey: configTemplate?.apiKey || process.env.VORTEX_API_KEY!,
-    apiBaseUrl: configTemplate?.apiBaseUrl || process.env.VORTEX_API_BASE_URL,
+    apiKey: template?.apiKey || process.env.VORTEX_API_KEY!,
+    apiBaseUrl: template?.apiBaseUrl || process.env.VORTEX_API_BASE_URL,
   };
 
-  if (!baseConfig.apiKey) {
+  // Multi-tenant setups may leave the API key to resolveTenant
+  if (!baseConfig.apiKey && !template?.resolveTenant) {
     throw new Error(
       'Vortex not configured. Call configureVortex() or set VORTEX_API_KEY environment variable'
     );
   }
 
   // Copy hooks from template if they exist
-  if (configTemplate) {
-    return {
-      ...baseConfig,
-      authenticateUser: configTemplate.authenticateUser,
-      canAccessInvitationsByTarget: configTemplate.canAccessInvitationsByTarget,
-      canAccessInvitation: configTemplate.canAccessInvitation,
-      canDeleteInvitation: configTemplate.canDeleteInvitation,
-      canAcceptInvitations: configTemplate.canAcceptInvitations,
-      canAccessInvitationsByGroup: configTemplate.canAccessInvitationsByGroup,
-      canAccessInvitationsByScope: configTemplate.canAccessInvitationsByScope,
-      canDeleteInvitationsByGroup: configTemplate.canDeleteInvitationsByGroup,
-      canDeleteInvitationsByScope: configTemplate.canDeleteInvitationsByScope,
-      canReinvite: configTemplate.canReinvite,
-      canSyncInternalInvitation: configTemplate.canSyncInternalInvitation,
-    };
+  if (template) {
+    return { ...template, ...baseConfig };
   }
 
   return baseConfig;
 }
 
-// Helper function to authenticate user for any request
+/**
+ * Supplies the configuration used to serve a single request.
+ */
+export type VortexConfigProvider = () => Promise<VortexConfig>;
+
+/**
+ * Creates a configuration provider bound to the given config, independent of
+ * the global configuration set by configureVortex().
+ */
+export function createVortexConfigProvider(config: VortexConfig): VortexConfigProvider {
+  if (!config.apiKey && !process.env.VORTEX_API_KEY && !config.resolveTenant) {
+    throw new Error('API key is required in config or VORTEX_API_KEY environment variable');
+  }
+
+  const template: VortexConfig = { ...config };
+  return async () => resolveVortexConfig(template);
+}
+
+/**
+ * Wraps a route handler so that it (and anything it calls, such as
+ * authenticateRequest) resolves its configuration from the given provider
+ * instead of the global configuration.
+ */
+export function withVortexConfig<T extends (req: Request, res: Response) => Promise<unknown>>(
+  handler: T,
+  provider: VortexConfigProvider
+): T {
+  return async function (req: Request, res: Response) {
+    res.locals.vortexConfigProvider = provider;
+    return handler(req, res);
+  } as T;
+}
+
+/**
+ * Returns the configuration for the current request: the provider bound by
+ * withVortexConfig() if present, otherwise the global configuration, with the
+ * request's tenant applied when resolveTenant is configured.
+ */
+export async function getRequestVortexConfig(
+  request: Request,
+  response: Response
+): Promise<VortexConfig> {
+  const provider = response.locals?.vortexConfigProvider as VortexConfigProvider | undefined;
+  const baseConfig = provider ? await provider() : await getVortexConfig();
+
+  if (!baseConfig.resolveTenant) {
+    return baseConfig;
+  }
+
+  const config = applyTenant(baseConfig, await resolveRequestTenant(baseConfig, request));
+  if (!config.apiKey) {
+    throw new Error('No Vortex API key resolved for this request');
+  }
+  return config;
+}
+
+interface RequestUsers {
+  /** Users authenticated with each config provider; undefined is the global configuration */
+  byProvider: Map<VortexConfigProvider | undefined, AuthenticatedUser | null>;
+  /** What was last written to `res.locals.vortexUser` */
+  shared: AuthenticatedUser | null;
+}
+
+const requestUsers = new WeakMap<Response, RequestUsers>();
+
+/**
+ * Authenticates the user for any request. Returns null for anonymous
+ * requests; when authenticateUser throws, the error goes to onAuthError and
+ * otherwise a VortexAuthenticationError (503) is thrown, so an outage is
+ * never mistaken for an anonymous user.
+ *
+ * The result is remembered per configuration, so authenticateUser runs once
+ * per request for each instance, and the latest one is kept in
+ * `res.locals.vortexUser`. Set it in your own middleware to skip the hook
+ * entirely.
+ */
 export async function authenticateRequest(
   request: Request,
   response: Response
 ): Promise<AuthenticatedUser | null> {
-  const config = await getVortexConfig();
+  const provider = response.locals?.vortexConfigProvider as VortexConfigProvider | undefined;
+  const users = requestUsers.get(response);
+  const cached = users?.byProvider.get(provider);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  // A user set by the app's own middleware, rather than by another instance, applies everywhere
+  const preset = response.locals?.vortexUser as AuthenticatedUser | null | undefined;
+  if (preset !== undefined && (!users || preset !== users.shared)) {
+    return preset;
+  }
+
+  const user = await runAuthenticateUser(request, response);
+  const entry = users ?? { byProvider: new Map(), shared: user };
+  entry.byProvider.set(provider, user);
+  entry.shared = user;
+  requestUsers.set(response, entry);
+  if (response.locals) {
+    response.locals.vortexUser = user;
+  }
+  return user;
+}
+
+async function runAuthenticateUser(request: Request, response: Response): Promise<AuthenticatedUser | null> {
+  const config = await getRequestVortexConfig(request, response);
 
   if (!config.authenticateUser) {
     return null;
   }
 
   try {
-    return await config.authenticateUser(request, response);
+    return (await config.authenticateUser(request, response)) ?? null;
   } catch (error) {
-    // Log error but don't expose details
-    console.error('Authentication error:', error);
-    return null;
+    if (error instanceof VortexHttpError) {
+      throw error;
+    }
+    if (config.onAuthError) {
+      const result = await config.onAuthError(error, request, response);
+      if (result instanceof VortexHttpError) {
+        throw result;
+      }
+      if (result !== undefined) {
+        return result;
+      }
+    }
+    throw new VortexAuthenticationError(error);
+  }
+}
+
+/**
+ * Authenticates the user for a route, rejecting anonymous requests with
+ * 401 when strictAuth is enabled
+ */
+export async function authenticateRouteRequest(
+  request: Request,
+  response: Response
+): Promise<AuthenticatedUser | null> {
+  const config = await getRequestVortexConfig(request, response);
+  const user = await authenticateRequest(request, response);
+  if (!user && config.strictAuth) {
+    throw new VortexUnauthorizedError();
   }
+  return user;
 }
 
 /**
@@ -230,5 +460,6 @@ export function createAllowAllAccessControl() {
     canDeleteInvitationsByScope: allowAll,
     canReinvite: allowAll,
     canSyncInternalInvitation: allowAll,
+    canCreateInvitation: allowAll,
   } satisfies Partial<VortexConfig>;
 }
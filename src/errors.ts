@@ -0,0 +1,286 @@
+import { randomUUID } from 'node:crypto';
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Machine-readable error codes returned in the `error.code` field
+ */
+export type VortexErrorCode =
+  | 'bad_request'
+  | 'validation_error'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'email_domain_not_allowed'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'conflict'
+  | 'idempotency_key_reused'
+  | 'idempotency_key_in_progress'
+  | 'rate_limited'
+  | 'internal_error'
+  | 'authentication_unavailable'
+  | 'upstream_error'
+  | 'service_unavailable'
+  | 'upstream_timeout';
+
+/**
+ * Error response envelope sent by all Vortex routes
+ */
+export interface VortexErrorBody {
+  error: {
+    code: VortexErrorCode | string;
+    message: string;
+    details?: unknown;
+    requestId?: string;
+  };
+}
+
+const DEFAULT_CODES: Record<number, VortexErrorCode> = {
+  400: 'bad_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  405: 'method_not_allowed',
+  409: 'conflict',
+  429: 'rate_limited',
+  500: 'internal_error',
+  502: 'upstream_error',
+  503: 'service_unavailable',
+  504: 'upstream_timeout',
+};
+
+export function errorCodeForStatus(status: number): VortexErrorCode {
+  return DEFAULT_CODES[status] ?? (status >= 500 ? 'internal_error' : 'bad_request');
+}
+
+/**
+ * Base class for errors that map to an HTTP response.
+ * Throw these from custom handlers or hooks to control the status and code.
+ */
+export class VortexHttpError extends Error {
+  readonly status: number;
+  readonly code: VortexErrorCode | string;
+  readonly details?: unknown;
+
+  constructor(status: number, message: string, options: { code?: string; details?: unknown; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'VortexHttpError';
+    this.status = status;
+    this.code = options.code ?? errorCodeForStatus(status);
+    this.details = options.details;
+  }
+}
+
+export class VortexBadRequestError extends VortexHttpError {
+  constructor(message: string, details?: unknown) {
+    super(400, message, { details });
+    this.name = 'VortexBadRequestError';
+  }
+}
+
+export class VortexValidationError extends VortexHttpError {
+  constructor(message: string, details?: unknown) {
+    super(400, message, { code: 'validation_error', details });
+    this.name = 'VortexValidationError';
+  }
+}
+
+export class VortexUnauthorizedError extends VortexHttpError {
+  constructor(message: string = 'Unauthorized') {
+    super(401, message);
+    this.name = 'VortexUnauthorizedError';
+  }
+}
+
+/**
+ * Sent when authenticateUser throws, e.g. because the session store is down,
+ * so the request is neither treated as anonymous nor allowed through
+ */
+export class VortexAuthenticationError extends VortexHttpError {
+  constructor(cause?: unknown) {
+    super(503, 'Authentication is temporarily unavailable', { code: 'authentication_unavailable', cause });
+    this.name = 'VortexAuthenticationError';
+  }
+}
+
+export class VortexForbiddenError extends VortexHttpError {
+  constructor(message: string = 'Access denied') {
+    super(403, message);
+    this.name = 'VortexForbiddenError';
+  }
+}
+
+export class VortexNotFoundError extends VortexHttpError {
+  constructor(message: string = 'Not found', details?: unknown) {
+    super(404, message, { details });
+    this.name = 'VortexNotFoundError';
+  }
+}
+
+export class VortexConflictError extends VortexHttpError {
+  constructor(message: string = 'Conflict', details?: unknown) {
+    super(409, message, { details });
+    this.name = 'VortexConflictError';
+  }
+}
+
+export class VortexUpstreamError extends VortexHttpError {
+  /** Status code returned by the Vortex API, if it responded */
+  readonly upstreamStatus?: number;
+
+  constructor(message: string, upstreamStatus?: number, cause?: unknown) {
+    super(upstreamStatus === undefined ? 504 : 502, message, { cause });
+    this.name = 'VortexUpstreamError';
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+/**
+ * Thrown by VortexClient when the Vortex API responds with a non-2xx status
+ */
+export class VortexApiError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  readonly body: string;
+
+  constructor(status: number, statusText: string, body: string) {
+    super(`Vortex API request failed: ${status} ${statusText} - ${body}`);
+    this.name = 'VortexApiError';
+    this.status = status;
+    this.statusText = statusText;
+    this.body = body;
+  }
+}
+
+// The Node SDK's own client reports upstream failures in this message format
+const SDK_ERROR_PATTERN = /^Vortex API request failed: (\d{3}) [^-]*- ([\s\S]*)$/;
+
+function parseUpstreamBody(body: string): { message?: string; details?: unknown } {
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed === 'object') {
+      const message = [parsed.message, parsed.error].find((value) => typeof value === 'string');
+      return { message, details: parsed.errors ?? parsed.details };
+    }
+  } catch {
+    // Not JSON; ignore the body
+  }
+  return {};
+}
+
+function fromUpstream(status: number, body: string, cause: unknown): VortexHttpError {
+  const { message, details } = parseUpstreamBody(body);
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new VortexValidationError(message ?? 'The request was rejected by the Vortex API', details);
+    case 404:
+      return new VortexNotFoundError(message ?? 'Not found');
+    case 409:
+      return new VortexConflictError(message ?? 'Conflict');
+    case 429:
+      return new VortexHttpError(503, 'The Vortex API is rate limiting requests, try again later', {
+        code: 'service_unavailable',
+        cause,
+      });
+    default:
+      // 401/403 mean our API key was rejected, which is a server-side problem
+      return new VortexUpstreamError('The Vortex API request failed', status, cause);
+  }
+}
+
+/**
+ * Converts any thrown value into a VortexHttpError, mapping Vortex API
+ * failures to the matching HTTP status and hiding unexpected error details.
+ */
+export function toVortexHttpError(error: unknown): VortexHttpError {
+  if (error instanceof VortexHttpError) {
+    return error;
+  }
+  if (error instanceof VortexApiError) {
+    return fromUpstream(error.status, error.body, error);
+  }
+  if ((error as { name?: string } | null)?.name === 'TimeoutError') {
+    return new VortexUpstreamError('The Vortex API request timed out', undefined, error);
+  }
+  if (error instanceof Error) {
+    const match = SDK_ERROR_PATTERN.exec(error.message);
+    if (match) {
+      return fromUpstream(Number(match[1]), match[2], error);
+    }
+  }
+  return new VortexHttpError(500, 'An error occurred while processing your request', {
+    cause: error,
+  });
+}
+
+/**
+ * Returns the ID used to correlate an error response with server logs:
+ * the incoming X-Request-Id header if present, otherwise a generated UUID.
+ */
+export function getRequestId(req: Request | undefined, res: Response): string {
+  if (typeof res.locals?.vortexRequestId === 'string') {
+    return res.locals.vortexRequestId;
+  }
+
+  const header = req?.headers?.['x-request-id'];
+  const requestId =
+    typeof header === 'string' && header.length > 0 && header.length <= 200 ? header : randomUUID();
+  if (res.locals) {
+    res.locals.vortexRequestId = requestId;
+  }
+  return requestId;
+}
+
+/**
+ * Sends a VortexHttpError using the standard error envelope
+ */
+export function sendVortexError(req: Request | undefined, res: Response, error: VortexHttpError): Response {
+  const requestId = getRequestId(req, res);
+  if (!res.headersSent) {
+    res.setHeader('X-Request-Id', requestId);
+  }
+
+  const body: VortexErrorBody = {
+    error: {
+      code: error.code,
+      message: error.message,
+      ...(error.details !== undefined && { details: error.details }),
+      requestId,
+    },
+  };
+  return res.status(error.status).json(body);
+}
+
+/**
+ * Express error middleware that renders errors using the Vortex error envelope.
+ * createVortexRouter() installs it automatically; add it yourself when using
+ * individual handlers in your own routes.
+ *
+ * Usage:
+ * ```typescript
+ * app.get('/api/custom/:invitationId', async (req, res) => {
+ *   throw new VortexNotFoundError('Invitation not found');
+ * });
+ * app.use(vortexErrorHandler());
+ * ```
+ */
+export function vortexErrorHandler(): (
+  err: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => void {
+  return (err: unknown, req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+      next(err);
+      return;
+    }
+
+    const error = toVortexHttpError(err);
+    if (error.status >= 500) {
+      console.error('Vortex request failed:', err);
+    }
+    sendVortexError(req, res, error);
+  };
+}
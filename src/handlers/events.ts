@@ -0,0 +1,176 @@
+import { Request, Response } from 'express';
+import { VortexWebhookEvent, isWebhookEvent } from '@teamvortexsoftware/vortex-node-22-sdk';
+import { getRequestVortexConfig, authenticateRouteRequest } from '../config';
+import { sendErrorResponse, handleVortexError } from '../utils';
+import { isScopeAdmin } from '../policies';
+import { validateRequest } from '../validation';
+import { ScopeParams, eventStreamQuerySchema } from '../schemas';
+import type { VortexEventBus, VortexEventsOptions } from '../webhook-events';
+
+const DEFAULT_HEARTBEAT_MS = 15 * 1000;
+const DEFAULT_HISTORY_SIZE = 100;
+
+interface EventHub {
+  /** Recent invitation events, oldest first, for Last-Event-ID resumes */
+  history: VortexWebhookEvent[];
+  connections: Set<(event: VortexWebhookEvent) => void>;
+}
+
+const hubs = new WeakMap<VortexEventBus, EventHub>();
+
+// One subscription per bus feeds the history and every open connection
+function getEventHub(options: VortexEventsOptions): EventHub {
+  const existing = hubs.get(options.bus);
+  if (existing) {
+    return existing;
+  }
+
+  const hub: EventHub = { history: [], connections: new Set() };
+  const historySize = options.historySize ?? DEFAULT_HISTORY_SIZE;
+  hubs.set(options.bus, hub);
+  void (async () => {
+    for await (const event of options.bus.stream('invitation.*')) {
+      if (!isWebhookEvent(event)) continue;
+      hub.history.push(event);
+      if (hub.history.length > historySize) {
+        hub.history.shift();
+      }
+      for (const send of hub.connections) {
+        send(event);
+      }
+    }
+  })();
+  return hub;
+}
+
+function getEventScope(event: VortexWebhookEvent): { scopeType?: string; scope: string } | null {
+  const scope = event.data.scopeId ?? event.data.groupId;
+  const scopeType = event.data.scopeType ?? event.data.groupType;
+  if (typeof scope !== 'string') {
+    return null;
+  }
+  return { scope, scopeType: typeof scopeType === 'string' ? scopeType : undefined };
+}
+
+function formatEvent(event: VortexWebhookEvent): string {
+  const data = JSON.stringify({ id: event.id, type: event.type, timestamp: event.timestamp, data: event.data });
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${data}\n\n`;
+}
+
+/**
+ * Streams invitation events received through webhooks to the client as
+ * Server-Sent Events. Pass `scopeType` and `scope` in the query to only
+ * receive events for one scope. Without a canAccessInvitationsByScope hook,
+ * only events of scopes in the user's adminScopes are sent.
+ */
+export async function handleEventStream(req: Request, res: Response) {
+  let options: VortexEventsOptions;
+  let canAccessScope: (scope: ScopeParams) => Promise<boolean>;
+  let onlyScope: ScopeParams | undefined;
+  let lastEventId: string | undefined;
+  try {
+    if (req.method !== 'GET') {
+      return sendErrorResponse(res, 'Method not allowed', 405);
+    }
+
+    const config = await getRequestVortexConfig(req, res);
+    if (!config.events) {
+      return sendErrorResponse(res, 'Event stream is not configured', 404);
+    }
+    options = config.events;
+    const { query } = validateRequest(req, { query: eventStreamQuerySchema }, config.validationLimits);
+    const user = await authenticateRouteRequest(req, res);
+
+    if (!config.canAccessInvitationsByScope && !user) {
+      return sendErrorResponse(
+        res,
+        'Access denied. Configure access control hooks for invitation endpoints.',
+        403
+      );
+    }
+
+    // Decisions are remembered per scope for the life of the connection
+    const decisions = new Map<string, Promise<boolean>>();
+    const hook = config.canAccessInvitationsByScope;
+    canAccessScope = (scope) => {
+      if (!hook) {
+        // Built-in policy: only events of scopes the user administers
+        return Promise.resolve(!!user && isScopeAdmin(user, scope.scope));
+      }
+      const key = `${scope.scopeType}\n${scope.scope}`;
+      let decision = decisions.get(key);
+      if (!decision) {
+        decision = Promise.resolve(hook(req, res, user, scope)).catch((error) => {
+          console.error('canAccessInvitationsByScope failed for event stream:', error);
+          return false;
+        });
+        decisions.set(key, decision);
+      }
+      return decision;
+    };
+
+    if (query.scopeType && query.scope) {
+      onlyScope = { scopeType: query.scopeType, scope: query.scope };
+      if (!(await canAccessScope(onlyScope))) {
+        return sendErrorResponse(res, 'Access denied', 403);
+      }
+    }
+
+    // Browsers send Last-Event-ID when EventSource reconnects
+    const header = req.headers['last-event-id'];
+    lastEventId = (typeof header === 'string' && header) || query.lastEventId;
+  } catch (error) {
+    return handleVortexError(req, res, error, 'handleEventStream');
+  }
+
+  const shouldSend = async (event: VortexWebhookEvent): Promise<boolean> => {
+    const eventScope = getEventScope(event);
+    if (!eventScope) {
+      return false;
+    }
+    if (onlyScope) {
+      return eventScope.scope === onlyScope.scope && (!eventScope.scopeType || eventScope.scopeType === onlyScope.scopeType);
+    }
+    // Without a scope type the hook can't be asked, so the event is withheld
+    return eventScope.scopeType !== undefined && canAccessScope({ scopeType: eventScope.scopeType, scope: eventScope.scope });
+  };
+
+  // Events are written in order, each after its access check
+  let pending = Promise.resolve();
+  const send = (event: VortexWebhookEvent) => {
+    pending = pending
+      .then(async () => {
+        if (!res.writableEnded && (await shouldSend(event))) {
+          res.write(formatEvent(event));
+        }
+      })
+      .catch((error) => console.error('Failed to send Vortex event:', error));
+  };
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop nginx from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const hub = getEventHub(options);
+  if (lastEventId) {
+    const index = hub.history.findIndex((event) => event.id === lastEventId);
+    if (index === -1) {
+      // The missed events are no longer kept, so the client should refetch
+      res.write('event: resync\ndata: {}\n\n');
+    } else {
+      hub.history.slice(index + 1).forEach(send);
+    }
+  }
+  hub.connections.add(send);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), options.heartbeatMs ?? DEFAULT_HEARTBEAT_MS);
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    hub.connections.delete(send);
+  });
+  return res;
+}
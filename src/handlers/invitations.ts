@@ -1,280 +1,241 @@
 import { Request, Response } from 'express';
-import { Vortex } from '@teamvortexsoftware/vortex-node-22-sdk';
-import { getVortexConfig, authenticateRequest } from '../config';
+import type { InvitationTarget, Inviter } from '@teamvortexsoftware/vortex-node-22-sdk';
+import { getVortexClient, getRequestInvitation } from '../client';
+import {
+  getRequestVortexConfig,
+  authenticateRouteRequest,
+  InvitationResource,
+  VortexConfig,
+} from '../config';
 import {
   createApiResponse,
-  createErrorResponse,
+  sendErrorResponse,
+  handleVortexError,
   parseRequestBody,
-  validateRequiredFields,
-  getQueryParam,
-  getRouteParam,
-  sanitizeInput,
 } from '../utils';
+import {
+  getCachedVortexData,
+  getInvitationTags,
+  invalidateVortexCache,
+  invitationTag,
+  scopeTag,
+  sendCacheableResponse,
+} from '../cache';
+import { validateRequest } from '../validation';
+import {
+  invitationParamsSchema,
+  scopeParamsSchema,
+  invitationsByTargetQuerySchema,
+  acceptInvitationsBodySchema,
+  syncInternalInvitationBodySchema,
+  createInvitationBodySchema,
+} from '../schemas';
+import {
+  assertEmailDomainAllowed,
+  assertInvitationAdmin,
+  assertInvitationTargetsAllowed,
+  assertScopeAdmin,
+} from '../policies';
+
+// With fetchInvitationForHooks, hooks receive the invitation alongside its ID
+async function getInvitationResource(
+  req: Request,
+  res: Response,
+  config: VortexConfig,
+  invitationId: string
+): Promise<InvitationResource> {
+  if (!config.fetchInvitationForHooks) {
+    return { invitationId };
+  }
+  return { invitationId, invitation: await getRequestInvitation(req, res, invitationId) };
+}
 
 export async function handleGetInvitationsByTarget(req: Request, res: Response) {
   try {
     if (req.method !== 'GET') {
-      return createErrorResponse(res, 'Method not allowed', 405);
+      return sendErrorResponse(res, 'Method not allowed', 405);
     }
 
     // Get configuration and authenticate user
-    const config = await getVortexConfig();
-    const user = await authenticateRequest(req, res);
+    const config = await getRequestVortexConfig(req, res);
+    const { query } = validateRequest(
+      req,
+      { query: invitationsByTargetQuerySchema },
+      config.validationLimits
+    );
+    const user = await authenticateRouteRequest(req, res);
 
     // Check access control if hook is configured
     if (config.canAccessInvitationsByTarget) {
       const hasAccess = await config.canAccessInvitationsByTarget(req, res, user);
       if (!hasAccess) {
-        return createErrorResponse(res, 'Access denied', 403);
+        return sendErrorResponse(res, 'Access denied', 403);
       }
     } else if (!user) {
       // If no access control hook is configured, require authentication
-      return createErrorResponse(
+      return sendErrorResponse(
         res,
         'Access denied. Configure access control hooks for invitation endpoints.',
         403
       );
     }
 
-    const targetType = sanitizeInput(getQueryParam(req, 'targetType')) as
-      | 'email'
-      | 'username'
-      | 'phoneNumber';
-    const targetValue = sanitizeInput(getQueryParam(req, 'targetValue'));
-
-    if (!targetType || !targetValue) {
-      return createErrorResponse(
-        res,
-        'targetType and targetValue query parameters are required',
-        400
-      );
-    }
-
-    if (!['email', 'username', 'phoneNumber'].includes(targetType)) {
-      return createErrorResponse(res, 'targetType must be email, username, or phoneNumber', 400);
-    }
-
-    const vortex = new Vortex(config.apiKey);
-    const invitations = await vortex.getInvitationsByTarget(targetType, targetValue);
+    const vortex = getVortexClient(config);
+    const invitations = await vortex.getInvitationsByTarget(query.targetType, query.targetValue);
     return createApiResponse(res, { invitations });
   } catch (error) {
-    console.error('Error in handleGetInvitationsByTarget:', error);
-    return createErrorResponse(res, 'An error occurred while processing your request', 500);
+    return handleVortexError(req, res, error, 'handleGetInvitationsByTarget');
   }
 }
 
 export async function handleGetInvitation(req: Request, res: Response) {
   try {
     if (req.method !== 'GET') {
-      return createErrorResponse(res, 'Method not allowed', 405);
-    }
-
-    const invitationId = getRouteParam(req, 'invitationId');
-    const sanitizedId = sanitizeInput(invitationId);
-    if (!sanitizedId) {
-      return createErrorResponse(res, 'Invalid invitation ID', 400);
+      return sendErrorResponse(res, 'Method not allowed', 405);
     }
 
     // Get configuration and authenticate user
-    const config = await getVortexConfig();
-    const user = await authenticateRequest(req, res);
+    const config = await getRequestVortexConfig(req, res);
+    const { params } = validateRequest(req, { params: invitationParamsSchema }, config.validationLimits);
+    const { invitationId } = params;
+    const user = await authenticateRouteRequest(req, res);
 
     // Check access control if hook is configured
     if (config.canAccessInvitation) {
-      const hasAccess = await config.canAccessInvitation(req, res, user, {
-        invitationId: sanitizedId,
-      });
+      const resource = await getInvitationResource(req, res, config, invitationId);
+      const hasAccess = await config.canAccessInvitation(req, res, user, resource);
       if (!hasAccess) {
-        return createErrorResponse(res, 'Access denied', 403);
+        return sendErrorResponse(res, 'Access denied', 403);
       }
     } else if (!user) {
-      return createErrorResponse(
+      return sendErrorResponse(
         res,
         'Access denied. Configure access control hooks for invitation endpoints.',
         403
       );
     }
 
-    const vortex = new Vortex(config.apiKey);
-    const invitation = await vortex.getInvitation(sanitizedId);
-    return createApiResponse(res, invitation);
+    const invitation = await getRequestInvitation(req, res, invitationId);
+    return sendCacheableResponse(req, res, config, invitation);
   } catch (error) {
-    console.error('Error in handleGetInvitation:', error);
-    return createErrorResponse(res, 'An error occurred while processing your request', 500);
+    return handleVortexError(req, res, error, 'handleGetInvitation');
   }
 }
 
 export async function handleRevokeInvitation(req: Request, res: Response) {
   try {
     if (req.method !== 'DELETE') {
-      return createErrorResponse(res, 'Method not allowed', 405);
+      return sendErrorResponse(res, 'Method not allowed', 405);
     }
 
-    const invitationId = getRouteParam(req, 'invitationId');
-    const sanitizedId = sanitizeInput(invitationId);
-    if (!sanitizedId) {
-      return createErrorResponse(res, 'Invalid invitation ID', 400);
-    }
-
-    const config = await getVortexConfig();
-    const user = await authenticateRequest(req, res);
+    const config = await getRequestVortexConfig(req, res);
+    const { params } = validateRequest(req, { params: invitationParamsSchema }, config.validationLimits);
+    const { invitationId } = params;
+    const user = await authenticateRouteRequest(req, res);
 
     if (config.canDeleteInvitation) {
-      const hasAccess = await config.canDeleteInvitation(req, res, user, {
-        invitationId: sanitizedId,
-      });
+      const resource = await getInvitationResource(req, res, config, invitationId);
+      const hasAccess = await config.canDeleteInvitation(req, res, user, resource);
       if (!hasAccess) {
-        return createErrorResponse(res, 'Access denied', 403);
+        return sendErrorResponse(res, 'Access denied', 403);
       }
     } else if (!user) {
-      return createErrorResponse(
+      return sendErrorResponse(
         res,
         'Access denied. Configure access control hooks for invitation endpoints.',
         403
       );
+    } else if (config.enforceAdminScopes) {
+      // Built-in policy: only admins of the invitation's scope may revoke it
+      assertInvitationAdmin(user, await getRequestInvitation(req, res, invitationId));
     }
 
-    const vortex = new Vortex(config.apiKey);
-    await vortex.revokeInvitation(sanitizedId);
+    const vortex = getVortexClient(config);
+    await vortex.revokeInvitation(invitationId);
+    await invalidateVortexCache(config, [invitationTag(invitationId)]);
     return createApiResponse(res, { success: true });
   } catch (error) {
-    console.error('Error in handleRevokeInvitation:', error);
-    return createErrorResponse(res, 'An error occurred while processing your request', 500);
+    return handleVortexError(req, res, error, 'handleRevokeInvitation');
   }
 }
 
 export async function handleAcceptInvitations(req: Request, res: Response) {
   try {
     if (req.method !== 'POST') {
-      return createErrorResponse(res, 'Method not allowed', 405);
+      return sendErrorResponse(res, 'Method not allowed', 405);
     }
 
-    const body = (await parseRequestBody(req)) as Record<string, unknown>;
-
+    await parseRequestBody(req);
+    const config = await getRequestVortexConfig(req, res);
+    const { body } = validateRequest(req, { body: acceptInvitationsBodySchema }, config.validationLimits);
     const { invitationIds, target, user } = body;
-
-    if (!Array.isArray(invitationIds) || invitationIds.length === 0) {
-      return createErrorResponse(res, 'invitationIds must be a non-empty array', 400);
-    }
-
-    // Sanitize invitation IDs
-    const sanitizedIds: string[] = invitationIds
-      .map((id: string) => sanitizeInput(id))
-      .filter((id): id is string => Boolean(id));
-    if (sanitizedIds.length !== invitationIds.length) {
-      return createErrorResponse(res, 'Invalid invitation IDs provided', 400);
-    }
-
-    // Support both new format (user) and legacy format (target)
-    if (!user && !target) {
-      return createErrorResponse(res, 'Either user or target must be provided', 400);
-    }
-
-    let acceptData: any;
-
-    if (user) {
-      // New format: user object with email/phone
-      const userObj = user as { email?: string; phone?: string; name?: string };
-      if (!userObj.email && !userObj.phone) {
-        return createErrorResponse(res, 'user must have either email or phone', 400);
-      }
-      acceptData = {
-        email: userObj.email ? sanitizeInput(userObj.email) : undefined,
-        phone: userObj.phone ? sanitizeInput(userObj.phone) : undefined,
-        name: userObj.name ? sanitizeInput(userObj.name) : undefined,
-      };
-    } else {
-      // Legacy format: target object
-      const targetObj = target as { type?: string; value?: string };
-
-      if (!targetObj.type || !targetObj.value) {
-        return createErrorResponse(res, 'target must have type and value properties', 400);
-      }
-
-      if (!['email', 'username', 'phoneNumber', 'phone'].includes(targetObj.type)) {
-        return createErrorResponse(
-          res,
-          'target.type must be email, username, phoneNumber, or phone',
-          400
-        );
-      }
-
-      acceptData = {
-        type: targetObj.type,
-        value: sanitizeInput(targetObj.value) || targetObj.value,
-      };
-    }
-
-    const config = await getVortexConfig();
-    const authenticatedUser = await authenticateRequest(req, res);
+    const authenticatedUser = await authenticateRouteRequest(req, res);
 
     if (config.canAcceptInvitations) {
-      const resource = {
-        invitationIds: sanitizedIds,
-        target: target as { type: string; value: string } | undefined,
-        user: user as { email?: string; phone?: string; name?: string } | undefined,
-      };
-      const hasAccess = await config.canAcceptInvitations(req, res, authenticatedUser, resource);
+      const hasAccess = await config.canAcceptInvitations(req, res, authenticatedUser, body);
       if (!hasAccess) {
-        return createErrorResponse(res, 'Access denied', 403);
+        return sendErrorResponse(res, 'Access denied', 403);
       }
     } else if (!authenticatedUser) {
-      return createErrorResponse(
+      return sendErrorResponse(
         res,
         'Access denied. Configure access control hooks for invitation endpoints.',
         403
       );
     }
 
-    const vortex = new Vortex(config.apiKey);
-    const result = await vortex.acceptInvitations(sanitizedIds, acceptData);
+    // Support both new format (user) and legacy format (target)
+    const vortex = getVortexClient(config);
+    const result = user
+      ? await vortex.acceptInvitations(invitationIds, user)
+      : await vortex.acceptInvitations(invitationIds, {
+          // The SDK also maps the legacy username and phoneNumber target types
+          type: target!.type as InvitationTarget['type'],
+          value: target!.value,
+        });
+    await invalidateVortexCache(config, invitationIds.map(invitationTag));
     return createApiResponse(res, result);
   } catch (error) {
-    console.error('Error in handleAcceptInvitations:', error);
-    return createErrorResponse(res, 'An error occurred while processing your request', 500);
+    return handleVortexError(req, res, error, 'handleAcceptInvitations');
   }
 }
 
 export async function handleGetInvitationsByScope(req: Request, res: Response) {
   try {
     if (req.method !== 'GET') {
-      return createErrorResponse(res, 'Method not allowed', 405);
+      return sendErrorResponse(res, 'Method not allowed', 405);
     }
 
     // Get configuration and authenticate user
-    const config = await getVortexConfig();
-    const user = await authenticateRequest(req, res);
-
-    const scopeType = sanitizeInput(getRouteParam(req, 'scopeType'));
-    const scope = sanitizeInput(getRouteParam(req, 'scope'));
-
-    if (!scopeType || !scope) {
-      return createErrorResponse(res, 'scopeType and scope route parameters are required', 400);
-    }
+    const config = await getRequestVortexConfig(req, res);
+    const { params } = validateRequest(req, { params: scopeParamsSchema }, config.validationLimits);
+    const { scopeType, scope } = params;
+    const user = await authenticateRouteRequest(req, res);
 
     // Check access control if hook is configured
     if (config.canAccessInvitationsByScope) {
-      const hasAccess = await config.canAccessInvitationsByScope(req, res, user, {
-        scopeType,
-        scope,
-      });
+      const hasAccess = await config.canAccessInvitationsByScope(req, res, user, params);
       if (!hasAccess) {
-        return createErrorResponse(res, 'Access denied', 403);
+        return sendErrorResponse(res, 'Access denied', 403);
       }
     } else if (!user) {
-      return createErrorResponse(
+      return sendErrorResponse(
         res,
         'Access denied. Configure access control hooks for invitation endpoints.',
         403
       );
     }
 
-    const vortex = new Vortex(config.apiKey);
-    const invitations = await vortex.getInvitationsByScope(scopeType, scope);
-    return createApiResponse(res, { invitations });
+    const vortex = getVortexClient(config);
+    const invitations = await getCachedVortexData(
+      config,
+      `scope:${scopeType}:${scope}`,
+      () => vortex.getInvitationsByScope(scopeType, scope),
+      (results) => [scopeTag(scopeType, scope), ...results.flatMap(getInvitationTags)]
+    );
+    return sendCacheableResponse(req, res, config, { invitations });
   } catch (error) {
-    console.error('Error in handleGetInvitationsByScope:', error);
-    return createErrorResponse(res, 'An error occurred while processing your request', 500);
+    return handleVortexError(req, res, error, 'handleGetInvitationsByScope');
   }
 }
 
@@ -292,43 +253,38 @@ export async function handleGetInvitationsByGroup(req: Request, res: Response) {
 export async function handleDeleteInvitationsByScope(req: Request, res: Response) {
   try {
     if (req.method !== 'DELETE') {
-      return createErrorResponse(res, 'Method not allowed', 405);
+      return sendErrorResponse(res, 'Method not allowed', 405);
     }
 
     // Get configuration and authenticate user
-    const config = await getVortexConfig();
-    const user = await authenticateRequest(req, res);
-
-    const scopeType = sanitizeInput(getRouteParam(req, 'scopeType'));
-    const scope = sanitizeInput(getRouteParam(req, 'scope'));
-
-    if (!scopeType || !scope) {
-      return createErrorResponse(res, 'scopeType and scope route parameters are required', 400);
-    }
+    const config = await getRequestVortexConfig(req, res);
+    const { params } = validateRequest(req, { params: scopeParamsSchema }, config.validationLimits);
+    const { scopeType, scope } = params;
+    const user = await authenticateRouteRequest(req, res);
 
     // Check access control if hook is configured
     if (config.canDeleteInvitationsByScope) {
-      const hasAccess = await config.canDeleteInvitationsByScope(req, res, user, {
-        scopeType,
-        scope,
-      });
+      const hasAccess = await config.canDeleteInvitationsByScope(req, res, user, params);
       if (!hasAccess) {
-        return createErrorResponse(res, 'Access denied', 403);
+        return sendErrorResponse(res, 'Access denied', 403);
       }
     } else if (!user) {
-      return createErrorResponse(
+      return sendErrorResponse(
         res,
         'Access denied. Configure access control hooks for invitation endpoints.',
         403
       );
+    } else if (config.enforceAdminScopes) {
+      // Built-in policy: only admins of the scope may delete its invitations
+      assertScopeAdmin(user, scope);
     }
 
-    const vortex = new Vortex(config.apiKey);
+    const vortex = getVortexClient(config);
     await vortex.deleteInvitationsByScope(scopeType, scope);
+    await invalidateVortexCache(config, [scopeTag(scopeType, scope)]);
     return createApiResponse(res, { success: true });
   } catch (error) {
-    console.error('Error in handleDeleteInvitationsByScope:', error);
-    return createErrorResponse(res, 'An error occurred while processing your request', 500);
+    return handleVortexError(req, res, error, 'handleDeleteInvitationsByScope');
   }
 }
 
@@ -346,98 +302,133 @@ export async function handleDeleteInvitationsByGroup(req: Request, res: Response
 export async function handleSyncInternalInvitation(req: Request, res: Response) {
   try {
     if (req.method !== 'POST') {
-      return createErrorResponse(res, 'Method not allowed', 405);
-    }
-
-    const body = (await parseRequestBody(req)) as Record<string, unknown>;
-
-    const { creatorId, targetValue, action, componentId } = body;
-
-    if (!creatorId || typeof creatorId !== 'string') {
-      return createErrorResponse(res, 'creatorId is required and must be a string', 400);
-    }
-    if (!targetValue || typeof targetValue !== 'string') {
-      return createErrorResponse(res, 'targetValue is required and must be a string', 400);
-    }
-    if (!action || !['accepted', 'declined'].includes(action as string)) {
-      return createErrorResponse(
-        res,
-        'action is required and must be "accepted" or "declined"',
-        400
-      );
-    }
-    if (!componentId || typeof componentId !== 'string') {
-      return createErrorResponse(res, 'componentId is required and must be a string', 400);
+      return sendErrorResponse(res, 'Method not allowed', 405);
     }
 
-    const config = await getVortexConfig();
-    const user = await authenticateRequest(req, res);
+    await parseRequestBody(req);
+    const config = await getRequestVortexConfig(req, res);
+    const { body } = validateRequest(
+      req,
+      { body: syncInternalInvitationBodySchema },
+      config.validationLimits
+    );
+    const user = await authenticateRouteRequest(req, res);
 
     if (config.canSyncInternalInvitation) {
-      const hasAccess = await config.canSyncInternalInvitation(req, res, user, {
-        creatorId: sanitizeInput(creatorId as string)!,
-        targetValue: sanitizeInput(targetValue as string)!,
-        action: action as string,
-        componentId: sanitizeInput(componentId as string)!,
-      });
+      const hasAccess = await config.canSyncInternalInvitation(req, res, user, body);
       if (!hasAccess) {
-        return createErrorResponse(res, 'Access denied', 403);
+        return sendErrorResponse(res, 'Access denied', 403);
       }
     } else if (!user) {
-      return createErrorResponse(
+      return sendErrorResponse(
         res,
         'Access denied. Configure access control hooks for invitation endpoints.',
         403
       );
     }
 
-    const vortex = new Vortex(config.apiKey);
-    const result = await vortex.syncInternalInvitation({
-      creatorId: sanitizeInput(creatorId as string)!,
-      targetValue: sanitizeInput(targetValue as string)!,
-      action: action as 'accepted' | 'declined',
-      componentId: sanitizeInput(componentId as string)!,
-    });
+    const vortex = getVortexClient(config);
+    const result = await vortex.syncInternalInvitation(body);
+    await invalidateVortexCache(config, (result.invitationIds ?? []).map(invitationTag));
     return createApiResponse(res, result);
   } catch (error) {
-    console.error('Error in handleSyncInternalInvitation:', error);
-    return createErrorResponse(res, 'An error occurred while processing your request', 500);
+    return handleVortexError(req, res, error, 'handleSyncInternalInvitation');
   }
 }
 
 export async function handleReinvite(req: Request, res: Response) {
   try {
     if (req.method !== 'POST') {
-      return createErrorResponse(res, 'Method not allowed', 405);
-    }
-
-    const invitationId = getRouteParam(req, 'invitationId');
-    const sanitizedId = sanitizeInput(invitationId);
-    if (!sanitizedId) {
-      return createErrorResponse(res, 'Invalid invitation ID', 400);
+      return sendErrorResponse(res, 'Method not allowed', 405);
     }
 
-    const config = await getVortexConfig();
-    const user = await authenticateRequest(req, res);
+    const config = await getRequestVortexConfig(req, res);
+    const { params } = validateRequest(req, { params: invitationParamsSchema }, config.validationLimits);
+    const { invitationId } = params;
+    const user = await authenticateRouteRequest(req, res);
 
     if (config.canReinvite) {
-      const hasAccess = await config.canReinvite(req, res, user, { invitationId: sanitizedId });
+      const resource = await getInvitationResource(req, res, config, invitationId);
+      const hasAccess = await config.canReinvite(req, res, user, resource);
       if (!hasAccess) {
-        return createErrorResponse(res, 'Access denied', 403);
+        return sendErrorResponse(res, 'Access denied', 403);
       }
     } else if (!user) {
-      return createErrorResponse(
+      return sendErrorResponse(
         res,
         'Access denied. Configure access control hooks for invitation endpoints.',
         403
       );
+    } else if (config.enforceAdminScopes || user.allowedEmailDomains) {
+      // Built-in policy: resends only go to addresses within the user's allowed
+      // email domains and, with enforceAdminScopes, only admins of the
+      // invitation's scope may resend it
+      const existing = await getRequestInvitation(req, res, invitationId);
+      if (config.enforceAdminScopes) {
+        assertInvitationAdmin(user, existing);
+      }
+      assertInvitationTargetsAllowed(user, existing);
     }
 
-    const vortex = new Vortex(config.apiKey);
-    const invitation = await vortex.reinvite(sanitizedId);
+    const vortex = getVortexClient(config);
+    const invitation = await vortex.reinvite(invitationId);
+    await invalidateVortexCache(config, [invitationTag(invitationId)]);
     return createApiResponse(res, invitation);
   } catch (error) {
-    console.error('Error in handleReinvite:', error);
-    return createErrorResponse(res, 'An error occurred while processing your request', 500);
+    return handleVortexError(req, res, error, 'handleReinvite');
+  }
+}
+
+export async function handleCreateInvitation(req: Request, res: Response) {
+  try {
+    if (req.method !== 'POST') {
+      return sendErrorResponse(res, 'Method not allowed', 405);
+    }
+
+    await parseRequestBody(req);
+    const config = await getRequestVortexConfig(req, res);
+    const { body } = validateRequest(req, { body: createInvitationBodySchema }, config.validationLimits);
+    const user = await authenticateRouteRequest(req, res);
+
+    // The inviter is always the authenticated user, never taken from the request body
+    if (!user) {
+      return sendErrorResponse(res, 'Unauthorized', 401);
+    }
+
+    // Email targets must be within the user's allowed domains, whatever the hook decides
+    if (body.target.type === 'email') {
+      assertEmailDomainAllowed(user, body.target.value);
+    }
+
+    const name = user.name ?? user.userName;
+    const avatarUrl = user.avatarUrl ?? user.userAvatarUrl;
+    const inviter: Inviter = {
+      userId: user.userId,
+      ...(user.userEmail && { userEmail: user.userEmail }),
+      ...(name && { name }),
+      ...(avatarUrl && { avatarUrl }),
+    };
+
+    if (config.canCreateInvitation) {
+      const { scopeId, scopeType, scopeName } = body;
+      const hasAccess = await config.canCreateInvitation(req, res, user, {
+        target: body.target,
+        scope: scopeId || scopeType ? { scopeId, scopeType, scopeName } : undefined,
+        inviter,
+      });
+      if (!hasAccess) {
+        return sendErrorResponse(res, 'Access denied', 403);
+      }
+    }
+
+    const vortex = getVortexClient(config);
+    const invitation = await vortex.createInvitation({ ...body, inviter });
+    await invalidateVortexCache(
+      config,
+      body.scopeId && body.scopeType ? [scopeTag(body.scopeType, body.scopeId)] : []
+    );
+    return createApiResponse(res, invitation, 201);
+  } catch (error) {
+    return handleVortexError(req, res, error, 'handleCreateInvitation');
   }
 }
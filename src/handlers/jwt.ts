@@ -1,72 +1,55 @@
 import { Request, Response } from 'express';
-import { Vortex } from '@teamvortexsoftware/vortex-node-22-sdk';
-import { getVortexConfig } from '../config';
-import { createApiResponse, createErrorResponse } from '../utils';
+import { getRequestVortexConfig, authenticateRequest } from '../config';
+import { issueJwt } from '../jwt';
+import { createApiResponse, sendErrorResponse, handleVortexError } from '../utils';
 
-export async function handleJwtGeneration(req: Request, res: Response) {
+async function respondWithJwt(req: Request, res: Response, refresh: boolean, source: string) {
   try {
     if (req.method !== 'POST') {
-      return createErrorResponse(res, 'Method not allowed', 405);
+      return sendErrorResponse(res, 'Method not allowed', 405);
     }
 
-    const config = await getVortexConfig();
+    const config = await getRequestVortexConfig(req, res);
 
     if (!config.authenticateUser) {
-      return createErrorResponse(
+      return sendErrorResponse(
         res,
         'JWT generation requires authentication configuration. Please configure authenticateUser hook.',
         500
       );
     }
 
-    const authenticatedUser = await config.authenticateUser(req, res);
+    const authenticatedUser = await authenticateRequest(req, res);
 
     if (!authenticatedUser) {
-      return createErrorResponse(res, 'Unauthorized', 401);
+      return sendErrorResponse(res, 'Unauthorized', 401);
     }
 
-    const vortex = new Vortex(config.apiKey);
-
     // Validate required fields
     if (!authenticatedUser.userId || !authenticatedUser.userEmail) {
-      return createErrorResponse(
+      return sendErrorResponse(
         res,
         'Invalid user format: must provide userId and userEmail',
         500
       );
     }
 
-    // Generate JWT with new format
-    // Prefer new property names (name/avatarUrl), fall back to deprecated (userName/userAvatarUrl)
-    const userName = authenticatedUser.name ?? authenticatedUser.userName;
-    const userAvatarUrl = authenticatedUser.avatarUrl ?? authenticatedUser.userAvatarUrl;
-    const jwtParams: any = {
-      user: {
-        id: authenticatedUser.userId,
-        email: authenticatedUser.userEmail,
-        ...(userName && { name: userName }),
-        ...(userAvatarUrl && { avatarUrl: userAvatarUrl }),
-        ...(authenticatedUser.adminScopes &&
-          authenticatedUser.adminScopes.length > 0 && {
-            adminScopes: authenticatedUser.adminScopes,
-          }),
-        ...(authenticatedUser.allowedEmailDomains &&
-          authenticatedUser.allowedEmailDomains.length > 0 && {
-            allowedEmailDomains: authenticatedUser.allowedEmailDomains,
-          }),
-      },
-    };
-
-    // Add attributes if present
-    if (authenticatedUser.attributes) {
-      jwtParams.attributes = authenticatedUser.attributes;
-    }
-
-    const jwt = vortex.generateJwt(jwtParams);
+    const { jwt, expiresAt } = await issueJwt(req, config, authenticatedUser, { refresh });
 
-    return createApiResponse(res, { jwt });
+    return createApiResponse(res, { jwt, expiresAt });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'An error occurred';
-    return createErrorResponse(res, message, 500);
+    return handleVortexError(req, res, error, source);
   }
 }
+
+export async function handleJwtGeneration(req: Request, res: Response) {
+  return respondWithJwt(req, res, false, 'handleJwtGeneration');
+}
+
+/**
+ * Issues a new token even when jwt.cache holds one, so clients can replace
+ * a token before it expires
+ */
+export async function handleJwtRefresh(req: Request, res: Response) {
+  return respondWithJwt(req, res, true, 'handleJwtRefresh');
+}
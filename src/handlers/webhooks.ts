@@ -1,15 +1,213 @@
-import { Request, Response, NextFunction } from 'express';
-import { VortexWebhooks, WebhookHandlers } from '@teamvortexsoftware/vortex-node-22-sdk';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { gunzipSync } from 'node:zlib';
+import { Request, Response, NextFunction, raw } from 'express';
+import {
+  VortexEvent,
+  VortexWebhooks,
+  VortexWebhookSignatureError,
+  WebhookHandlers,
+  isWebhookEvent,
+} from '@teamvortexsoftware/vortex-node-22-sdk';
+import { getWebhookEventTags, invalidateVortexCache } from '../cache';
+import { VortexConfig, VortexConfigProvider, getVortexConfig } from '../config';
+import type { WebhookQueue } from '../webhook-queue';
+
+/**
+ * Remembers which webhook events were already handled. Implement this with a
+ * shared store (e.g. Redis `SET NX`) when several processes receive webhooks.
+ */
+export interface WebhookEventStore {
+  /** Records an event ID. Returns false if it was already recorded. Must be atomic. */
+  markSeen(eventId: string, ttlMs: number): Promise<boolean>;
+  /** Forgets an event ID, so a redelivery after a handler failure runs again */
+  forget(eventId: string): Promise<void>;
+}
+
+/**
+ * Keeps seen event IDs in process memory
+ */
+export class MemoryWebhookEventStore implements WebhookEventStore {
+  private readonly seen = new Map<string, number>();
+
+  async markSeen(eventId: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    // Entries are inserted in expiry order, so expired ones are at the front
+    for (const [id, expiresAt] of this.seen) {
+      if (expiresAt > now) break;
+      this.seen.delete(id);
+    }
+
+    if (this.seen.has(eventId)) {
+      return false;
+    }
+    this.seen.set(eventId, now + ttlMs);
+    return true;
+  }
+
+  async forget(eventId: string): Promise<void> {
+    this.seen.delete(eventId);
+  }
+}
+
+const rawBodies = new WeakMap<IncomingMessage, Buffer>();
+
+/**
+ * `verify` callback for Express body parsers that keeps the raw body for
+ * webhook signature verification, so a global JSON parser can run before
+ * the webhook handler.
+ *
+ * @example
+ * ```typescript
+ * app.use(express.json({ verify: captureVortexRawBody }));
+ * ```
+ */
+export function captureVortexRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer): void {
+  rawBodies.set(req, buf);
+}
+
+export interface VortexWebhookBodyParserOptions {
+  /** Largest accepted body, as bytes or a string such as '1mb' (default '100kb') */
+  limit?: number | string;
+}
+
+/**
+ * Reads the webhook request body as raw bytes, decompressing gzip and
+ * deflate payloads. Does nothing if a parser using captureVortexRawBody
+ * already read the body. createVortexWebhookHandler() runs this itself
+ * when no body parser ran for the route.
+ */
+export function vortexWebhookBodyParser(
+  options: VortexWebhookBodyParserOptions = {},
+): (req: Request, res: Response, next: NextFunction) => void {
+  const parse = raw({ type: () => true, limit: options.limit });
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (rawBodies.has(req)) {
+      next();
+      return;
+    }
+    parse(req, res, (err?: unknown) => {
+      if (!err && Buffer.isBuffer(req.body)) {
+        rawBodies.set(req, req.body);
+      }
+      next(err);
+    });
+  };
+}
+
+const DEFAULT_MAX_BODY_BYTES = 100 * 1024;
+
+function readRawBody(
+  parser: ReturnType<typeof vortexWebhookBodyParser>,
+  req: Request,
+  res: Response,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    parser(req, res, (err?: unknown) => (err ? reject(err) : resolve()));
+  });
+}
+
+function gunzipBody(body: Buffer, maxBytes: number): Buffer {
+  try {
+    return gunzipSync(body, { maxOutputLength: maxBytes });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw Object.assign(new Error('Webhook body is too large'), { status: 413 });
+    }
+    throw err;
+  }
+}
+
+function getRawBody(req: Request, maxBytes: number): string | Buffer | undefined {
+  const body = rawBodies.get(req) ?? req.body;
+  if (Buffer.isBuffer(body)) {
+    // Parsers configured without inflate hand over the compressed bytes,
+    // which are inflated before the signature is checked, so cap the output
+    return body[0] === 0x1f && body[1] === 0x8b ? gunzipBody(body, maxBytes) : body;
+  }
+  return typeof body === 'string' ? body : undefined;
+}
+
+const DEFAULT_SEEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The secret that verified a webhook, reported to onSecretMatched
+ */
+export interface WebhookSecretMatch {
+  /** Position of the secret in the list */
+  index: number;
+  secret: string;
+}
+
+export interface VortexWebhookHandlerOptions {
+  /**
+   * Signing secrets to verify events with, tried in order, instead of the
+   * `webhooks` instance's secret. Lets old and new secrets both verify while a
+   * secret is rotated. A function is called per request, e.g. to load
+   * secrets from a secret manager.
+   */
+  secrets?: string[] | ((request: Request) => string[] | Promise<string[]>);
+  /**
+   * Called with the secret that verified each event when `secrets` is set,
+   * e.g. to tell when the old secret is no longer used. Avoid logging `secret`.
+   */
+  onSecretMatched?: (match: WebhookSecretMatch, request: Request) => void;
+  /**
+   * Reject events whose timestamp is further than this from the current
+   * time, in milliseconds. Off by default; 5 minutes is a reasonable window.
+   */
+  toleranceMs?: number;
+  /**
+   * Where handled event IDs are recorded, so redelivered events are
+   * acknowledged without running handlers again (defaults to an in-memory
+   * store per handler). Pass `false` to handle every delivery.
+   */
+  eventStore?: WebhookEventStore | false;
+  /**
+   * Queue verified events and respond 202 instead of running the handlers
+   * during the request. Run the handlers with createVortexWebhookWorker().
+   */
+  queue?: WebhookQueue;
+  /**
+   * Drop cached invitation responses affected by each event. Pass the config
+   * (or a provider such as `vortex.getConfig`) whose responseCache to
+   * invalidate, or `true` for the configuration set by configureVortex().
+   */
+  responseCache?: true | VortexConfig | VortexConfigProvider;
+  /**
+   * Largest accepted body after decompression, in bytes (default 100kb).
+   * Applies when the handler reads the body itself and to gzip payloads
+   * handed over compressed by another parser.
+   */
+  maxBodyBytes?: number;
+}
+
+async function invalidateCacheForEvent(
+  option: VortexWebhookHandlerOptions['responseCache'],
+  tags: string[],
+): Promise<void> {
+  if (!option || tags.length === 0) {
+    return;
+  }
+  try {
+    const config =
+      option === true ? await getVortexConfig() : typeof option === 'function' ? await option() : option;
+    await invalidateVortexCache(config, tags);
+  } catch (error) {
+    console.error('Failed to invalidate Vortex response cache:', error);
+  }
+}
 
 /**
  * Create an Express middleware that handles incoming Vortex webhook events.
  *
- * **Important:** This handler requires the raw request body for signature
- * verification. Use `express.raw({ type: 'application/json' })` on the
- * route, or configure a body parser that preserves the raw body.
+ * The signature is verified against the raw request body. The handler reads
+ * the body itself when no body parser ran for the route; when a global
+ * `express.json()` runs first, pass `verify: captureVortexRawBody` to it.
+ * Gzip-encoded payloads are decompressed.
  *
  * @param webhooks - A configured `VortexWebhooks` instance
  * @param handlers - Event handler configuration
+ * @param options - Secret rotation, replay protection, deduplication, queueing and cache invalidation
  * @returns Express request handler
  *
  * @example
@@ -21,8 +219,9 @@ import { VortexWebhooks, WebhookHandlers } from '@teamvortexsoftware/vortex-node
  * const app = express();
  * const webhooks = new VortexWebhooks({ secret: process.env.VORTEX_WEBHOOK_SECRET! });
  *
+ * app.use(express.json({ verify: captureVortexRawBody }));
+ *
  * app.post('/webhooks/vortex',
- *   express.raw({ type: 'application/json' }),
  *   createVortexWebhookHandler(webhooks, {
  *     on: {
  *       'invitation.accepted': async (event) => {
@@ -42,7 +241,40 @@ import { VortexWebhooks, WebhookHandlers } from '@teamvortexsoftware/vortex-node
 export function createVortexWebhookHandler(
   webhooks: VortexWebhooks,
   handlers: WebhookHandlers,
+  options: VortexWebhookHandlerOptions = {},
 ): (req: Request, res: Response, next: NextFunction) => void {
+  const verifiers = new Map<string, VortexWebhooks>();
+  const constructEvent = async (req: Request, rawBody: string | Buffer, signature: string): Promise<VortexEvent> => {
+    if (!options.secrets) {
+      return webhooks.constructEvent(rawBody, signature);
+    }
+
+    const secrets = typeof options.secrets === 'function' ? await options.secrets(req) : options.secrets;
+    for (const [index, secret] of secrets.entries()) {
+      let verifier = verifiers.get(secret);
+      if (!verifier) {
+        verifier = new VortexWebhooks({ secret });
+        verifiers.set(secret, verifier);
+      }
+      if (verifier.verifySignature(rawBody, signature)) {
+        try {
+          options.onSecretMatched?.({ index, secret }, req);
+        } catch (error) {
+          console.error('Vortex webhook onSecretMatched callback failed:', error);
+        }
+        return verifier.constructEvent(rawBody, signature);
+      }
+    }
+    throw new VortexWebhookSignatureError('Webhook signature did not match any of the configured secrets.');
+  };
+
+  const toleranceMs = options.toleranceMs ?? 0;
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const bodyParser = vortexWebhookBodyParser({ limit: maxBodyBytes });
+  const eventStore = options.eventStore === false ? null : (options.eventStore ?? new MemoryWebhookEventStore());
+  // Replays older than the tolerance are rejected anyway, so IDs only need to outlive it
+  const seenTtlMs = toleranceMs > 0 ? 2 * toleranceMs : DEFAULT_SEEN_TTL_MS;
+
   return async (req: Request, res: Response, _next: NextFunction) => {
     const signatureHeader = req.headers['x-vortex-signature'];
 
@@ -58,24 +290,73 @@ export function createVortexWebhookHandler(
       return;
     }
 
-    // Require raw body for signature verification — fail fast if body was parsed
-    let rawBody: string | Buffer;
-    if (typeof req.body === 'string' || Buffer.isBuffer(req.body)) {
-      rawBody = req.body;
-    } else {
+    let rawBody: string | Buffer | undefined;
+    try {
+      if (req.body === undefined && !rawBodies.has(req)) {
+        // No body parser ran for this route
+        await readRawBody(bodyParser, req, res);
+      }
+      rawBody = getRawBody(req, maxBodyBytes);
+    } catch (err) {
+      const status = (err as { status?: number }).status;
+      if (status === 413) {
+        res.status(413).json({ error: 'Webhook body is too large' });
+        return;
+      }
+      res.status(status && status >= 400 && status < 500 ? status : 400).json({ error: 'Invalid webhook body' });
+      return;
+    }
+
+    // A parser without captureVortexRawBody consumed the body — fail fast
+    if (rawBody === undefined) {
       res.status(500).json({
         error:
           'Vortex webhook handler requires the raw request body. ' +
-          'Configure express.raw({ type: "application/json" }) before this middleware.',
+          'Pass { verify: captureVortexRawBody } to express.json(), or mount the ' +
+          'webhook route before it.',
       });
       return;
     }
 
+    let seenEventId: string | undefined;
     try {
-      const event = webhooks.constructEvent(rawBody, signature);
+      const event = await constructEvent(req, rawBody, signature);
+
+      if (toleranceMs > 0) {
+        const age = Math.abs(Date.now() - Date.parse(event.timestamp));
+        if (!(age <= toleranceMs)) {
+          res.status(400).json({ error: 'Webhook timestamp is outside the tolerance window' });
+          return;
+        }
+      }
+
+      if (eventStore) {
+        if (!(await eventStore.markSeen(event.id, seenTtlMs))) {
+          res.status(200).json({ received: true, duplicate: true });
+          return;
+        }
+        seenEventId = event.id;
+      }
+
+      if (isWebhookEvent(event)) {
+        // Invalidate first so handlers reading invitations see fresh data
+        await invalidateCacheForEvent(options.responseCache, getWebhookEventTags(event));
+      }
+      if (options.queue) {
+        await options.queue.enqueue(event);
+        res.status(202).json({ received: true });
+        return;
+      }
       await webhooks.handleEvent(event, handlers);
       res.status(200).json({ received: true });
     } catch (err) {
+      if (eventStore && seenEventId) {
+        // Let Vortex's retry of this event run the handlers (or enqueue it) again
+        await eventStore.forget(seenEventId).catch((error) => {
+          console.error('Failed to forget Vortex webhook event:', error);
+        });
+      }
+
       // Note: if the error came from a handler (not signature verification),
       // handleEvent() already called onError before rethrowing.
       // We only call onError here for signature errors.
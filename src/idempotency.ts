@@ -0,0 +1,183 @@
+import { createHash } from 'node:crypto';
+import { Request, Response } from 'express';
+import { getRequestVortexConfig, authenticateRequest } from './config';
+import { VortexHttpError } from './errors';
+import { sendErrorResponse, handleVortexError } from './utils';
+
+/**
+ * A response recorded for an idempotency key
+ */
+export interface IdempotentResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * What a store keeps per idempotency key. `response` is missing while the
+ * first request with the key is still being handled.
+ */
+export interface IdempotencyRecord {
+  /** Hash of the method, URL and body of the first request with the key */
+  fingerprint: string;
+  response?: IdempotentResponse;
+}
+
+/**
+ * Storage for idempotency keys. Implement this to share keys between
+ * processes, e.g. with Redis (`SET key value NX PX ttl` in begin) or SQL
+ * (`INSERT ... ON CONFLICT DO NOTHING` in begin).
+ */
+export interface IdempotencyStore {
+  /**
+   * Reserves a key for a new request. Returns null when the key was free,
+   * otherwise the existing record. Must be atomic.
+   */
+  begin(key: string, fingerprint: string, ttlMs: number): Promise<IdempotencyRecord | null>;
+  /** Records the response for a key reserved with begin() */
+  complete(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void>;
+  /** Frees a reserved key so the request can be retried */
+  release(key: string): Promise<void>;
+}
+
+export interface VortexIdempotencyOptions {
+  /** Where keys are stored (defaults to an in-memory store shared by the process) */
+  store?: IdempotencyStore;
+  /** How long keys are remembered, in milliseconds (default 24 hours) */
+  ttlMs?: number;
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+/**
+ * Keeps idempotency keys in process memory. Suitable for a single process;
+ * use a shared store when running several instances behind a load balancer.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private readonly entries = new Map<string, { record: IdempotencyRecord; expiresAt: number }>();
+
+  async begin(key: string, fingerprint: string, ttlMs: number): Promise<IdempotencyRecord | null> {
+    this.sweep();
+    const existing = this.entries.get(key);
+    if (existing && existing.expiresAt > Date.now()) {
+      return existing.record;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, { record: { fingerprint }, expiresAt: Date.now() + ttlMs });
+    return null;
+  }
+
+  async complete(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void> {
+    // Re-insert so entries stay ordered by expiry
+    this.entries.delete(key);
+    this.entries.set(key, { record, expiresAt: Date.now() + ttlMs });
+  }
+
+  async release(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  // Entries are inserted in expiry order, so expired ones are at the front
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt > now) break;
+      this.entries.delete(key);
+    }
+  }
+}
+
+let defaultStore: MemoryIdempotencyStore | undefined;
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// 5xx responses and rate limits are not recorded, so the client can retry them
+function isReplayable(status: number): boolean {
+  return status < 500 && status !== 429;
+}
+
+/**
+ * Wraps a mutating handler so requests with an `Idempotency-Key` header run
+ * at most once. Retries with the same key and payload replay the recorded
+ * status and body; reusing a key with a different payload responds 409.
+ * createVortexRoutes() applies this to every mutating route.
+ */
+export function withIdempotency<H extends (req: Request, res: Response) => Promise<unknown>>(
+  handler: H
+): H {
+  return (async (req: Request, res: Response) => {
+    const header = req.headers?.[IDEMPOTENCY_KEY_HEADER];
+    if (header === undefined) {
+      return handler(req, res);
+    }
+
+    let storeKey: string;
+    let store: IdempotencyStore;
+    let ttlMs: number;
+    let fingerprint: string;
+    try {
+      const config = await getRequestVortexConfig(req, res);
+      if (config.idempotency === false) {
+        return handler(req, res);
+      }
+      if (typeof header !== 'string' || header.length === 0 || header.length > MAX_KEY_LENGTH) {
+        return sendErrorResponse(
+          res,
+          `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+          400
+        );
+      }
+
+      store = config.idempotency?.store ?? (defaultStore ??= new MemoryIdempotencyStore());
+      ttlMs = config.idempotency?.ttlMs ?? DEFAULT_TTL_MS;
+
+      // Keys are scoped to the API key and user, so one user can't replay another's response
+      const user = await authenticateRequest(req, res);
+      storeKey = hash(`${config.apiKey}\n${user?.userId ?? ''}\n${header}`);
+      fingerprint = hash(JSON.stringify([req.method, req.originalUrl ?? req.url, req.body ?? null]));
+
+      const existing = await store.begin(storeKey, fingerprint, ttlMs);
+      if (existing) {
+        if (existing.fingerprint !== fingerprint) {
+          throw new VortexHttpError(409, 'Idempotency-Key was already used for a different request', {
+            code: 'idempotency_key_reused',
+          });
+        }
+        if (!existing.response) {
+          throw new VortexHttpError(409, 'A request with this Idempotency-Key is still in progress', {
+            code: 'idempotency_key_in_progress',
+          });
+        }
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(existing.response.status).json(existing.response.body);
+      }
+    } catch (error) {
+      return handleVortexError(req, res, error, 'withIdempotency');
+    }
+
+    let response: IdempotentResponse | undefined;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      response = { status: res.statusCode, body };
+      return json(body);
+    };
+
+    try {
+      return await handler(req, res);
+    } finally {
+      try {
+        if (response && isReplayable(response.status)) {
+          await store.complete(storeKey, { fingerprint, response }, ttlMs);
+        } else {
+          await store.release(storeKey);
+        }
+      } catch (error) {
+        // The response was already sent; a retry will run the request again
+        console.error('Failed to record idempotent response:', error);
+      }
+    }
+  }) as H;
+}
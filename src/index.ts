@@ -5,6 +5,8 @@ export {
   getVortexConfig,
   authenticateRequest,
   createAllowAllAccessControl,
+  createVortexConfigProvider,
+  withVortexConfig,
 } from './config';
 export type {
   VortexConfig,
@@ -13,31 +15,101 @@ export type {
   InvitationResource,
   InvitationTargetResource,
   SyncInternalInvitationResource,
+  CreateInvitationResource,
   ScopeResource,
   GroupResource,
   InvitationAccessHook,
   InvitationTargetAccessHook,
   SyncInternalInvitationAccessHook,
+  CreateInvitationAccessHook,
   ScopeAccessHook,
   GroupAccessHook,
   BasicAccessHook,
+  VortexConfigProvider,
+  VortexTenant,
 } from './config';
 
+export { vortexAuth, createPassportAuth, createSessionAuth, createBearerJwtAuth } from './auth';
+export type {
+  VortexAuthOptions,
+  AuthenticateUserHook,
+  AuthenticatedUserMapper,
+  BearerJwtAuthOptions,
+  JwksSource,
+} from './auth';
+
+export { clearVortexTenantCache } from './tenants';
+export { withIdempotency, MemoryIdempotencyStore } from './idempotency';
+export { withRateLimit, MemoryRateLimitStore } from './rate-limit';
+export { MemoryResponseCacheStore, invalidateVortexCache, invitationTag, scopeTag } from './cache';
+export type { ResponseCacheStore, CachedResponse, VortexResponseCacheOptions } from './cache';
+export type {
+  RateLimitedRoute,
+  RateLimitKey,
+  RateLimitBudget,
+  RateLimitResult,
+  RateLimitStore,
+  VortexRateLimitOptions,
+} from './rate-limit';
+export type {
+  IdempotencyStore,
+  IdempotencyRecord,
+  IdempotentResponse,
+  VortexIdempotencyOptions,
+} from './idempotency';
+export {
+  isEmailDomainAllowed,
+  getEmailDomain,
+  isScopeAdmin,
+  getInvitationScopeIds,
+  assertEmailDomainAllowed,
+  assertScopeAdmin,
+  assertInvitationAdmin,
+  assertInvitationTargetsAllowed,
+  definePolicy,
+  explainDecision,
+  BUILT_IN_PREDICATES,
+  POLICY_ACTION_HOOKS,
+} from './policies';
+export type {
+  PolicyAction,
+  PolicyContext,
+  PolicyPredicate,
+  PolicyRule,
+  PolicyRules,
+  PolicyOptions,
+  PolicyDecision,
+  PolicyRuleResult,
+  VortexPolicy,
+} from './policies';
+
+export { createVortex } from './instance';
+export type { VortexInstance, VortexHandlers } from './instance';
+
 export {
   createVortexJwtRoute,
+  createVortexJwtRefreshRoute,
   createVortexInvitationsRoute,
+  createVortexCreateInvitationRoute,
   createVortexInvitationRoute,
   createVortexInvitationsAcceptRoute,
   createVortexInvitationsByGroupRoute,
   createVortexReinviteRoute,
+  createVortexEventsRoute,
   createVortexRoutes,
   createVortexRouter,
   registerVortexRoutes,
   VORTEX_ROUTES,
   createVortexApiPath,
 } from './routes';
+export type { VortexRoutes } from './routes';
 
-export { handleJwtGeneration } from './handlers/jwt';
+export { VortexClient, getVortexClient, getRequestInvitation } from './client';
+export type { VortexClientOptions } from './client';
+
+export { handleJwtGeneration, handleJwtRefresh } from './handlers/jwt';
+export { MemoryJwtCacheStore } from './jwt';
+export type { IssuedJwt, JwtCacheStore, VortexJwtOptions } from './jwt';
 
 export {
   handleGetInvitationsByTarget,
@@ -50,13 +122,97 @@ export {
   handleDeleteInvitationsByScope,
   handleReinvite,
   handleSyncInternalInvitation,
+  handleCreateInvitation,
 } from './handlers/invitations';
+export { handleEventStream } from './handlers/events';
+
+export {
+  createVortexWebhookHandler,
+  MemoryWebhookEventStore,
+  captureVortexRawBody,
+  vortexWebhookBodyParser,
+} from './handlers/webhooks';
+export type {
+  VortexWebhookHandlerOptions,
+  VortexWebhookBodyParserOptions,
+  WebhookEventStore,
+  WebhookSecretMatch,
+} from './handlers/webhooks';
+export { MemoryWebhookQueue, FileWebhookQueue, createVortexWebhookWorker } from './webhook-queue';
+export type {
+  WebhookJob,
+  WebhookQueue,
+  VortexWebhookWorker,
+  VortexWebhookWorkerOptions,
+} from './webhook-queue';
+export { vortexWebhookRouter } from './webhook-router';
+export type {
+  TypedWebhookEvent,
+  UnhandledWebhookEvent,
+  VortexWebhookRouter,
+  WebhookRouterEvent,
+} from './webhook-router';
+export { VortexEventBus } from './webhook-events';
+export type { VortexEventMap, VortexEventStreamOptions, VortexEventsOptions } from './webhook-events';
+
+export {
+  VortexHttpError,
+  VortexBadRequestError,
+  VortexValidationError,
+  VortexUnauthorizedError,
+  VortexAuthenticationError,
+  VortexForbiddenError,
+  VortexNotFoundError,
+  VortexConflictError,
+  VortexUpstreamError,
+  VortexApiError,
+  toVortexHttpError,
+  vortexErrorHandler,
+} from './errors';
+export type { VortexErrorCode, VortexErrorBody } from './errors';
 
-export { createVortexWebhookHandler } from './handlers/webhooks';
+export { schema, validateRequest, checkString } from './validation';
+export type {
+  Schema,
+  Infer,
+  ValidationIssue,
+  ValidationContext,
+  ParseResult,
+  RequestSchemas,
+  StringFormat,
+} from './validation';
+export {
+  DEFAULT_VALIDATION_LIMITS,
+  isValidEmail,
+  isValidE164Phone,
+  isValidId,
+  isValidText,
+  escapeHtml,
+} from './validators';
+export type { ValidationLimits } from './validators';
+export {
+  invitationParamsSchema,
+  scopeParamsSchema,
+  invitationsByTargetQuerySchema,
+  acceptInvitationsBodySchema,
+  syncInternalInvitationBodySchema,
+  createInvitationBodySchema,
+  eventStreamQuerySchema,
+} from './schemas';
+export type {
+  InvitationParams,
+  ScopeParams,
+  InvitationsByTargetQuery,
+  AcceptInvitationsBody,
+  SyncInternalInvitationBody,
+  CreateInvitationBody,
+  EventStreamQuery,
+} from './schemas';
 
 export {
   createApiResponse,
   createErrorResponse,
+  handleVortexError,
   parseRequestBody,
   getQueryParam,
   getRouteParam,
@@ -0,0 +1,143 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import {
+  VortexConfig,
+  VortexConfigProvider,
+  AuthenticatedUser,
+  createVortexConfigProvider,
+  withVortexConfig,
+  authenticateRequest,
+} from './config';
+import {
+  VortexRoutes,
+  createVortexRoutes,
+  createVortexRouter,
+  registerVortexRoutes,
+} from './routes';
+import { handleJwtGeneration, handleJwtRefresh } from './handlers/jwt';
+import {
+  handleGetInvitationsByTarget,
+  handleGetInvitation,
+  handleRevokeInvitation,
+  handleAcceptInvitations,
+  handleGetInvitationsByGroup,
+  handleGetInvitationsByScope,
+  handleDeleteInvitationsByGroup,
+  handleDeleteInvitationsByScope,
+  handleReinvite,
+  handleSyncInternalInvitation,
+  handleCreateInvitation,
+} from './handlers/invitations';
+import { handleEventStream } from './handlers/events';
+import { VortexAuthOptions, vortexAuth } from './auth';
+
+/**
+ * Handlers bound to a single Vortex instance
+ */
+export interface VortexHandlers {
+  handleJwtGeneration: typeof handleJwtGeneration;
+  handleJwtRefresh: typeof handleJwtRefresh;
+  handleGetInvitationsByTarget: typeof handleGetInvitationsByTarget;
+  handleGetInvitation: typeof handleGetInvitation;
+  handleRevokeInvitation: typeof handleRevokeInvitation;
+  handleAcceptInvitations: typeof handleAcceptInvitations;
+  /** @deprecated Use handleGetInvitationsByScope instead */
+  handleGetInvitationsByGroup: typeof handleGetInvitationsByGroup;
+  handleGetInvitationsByScope: typeof handleGetInvitationsByScope;
+  /** @deprecated Use handleDeleteInvitationsByScope instead */
+  handleDeleteInvitationsByGroup: typeof handleDeleteInvitationsByGroup;
+  handleDeleteInvitationsByScope: typeof handleDeleteInvitationsByScope;
+  handleReinvite: typeof handleReinvite;
+  handleSyncInternalInvitation: typeof handleSyncInternalInvitation;
+  handleCreateInvitation: typeof handleCreateInvitation;
+  handleEventStream: typeof handleEventStream;
+}
+
+/**
+ * A self-contained Vortex integration with its own configuration
+ */
+export interface VortexInstance {
+  /** Resolves this instance's configuration */
+  getConfig: VortexConfigProvider;
+  /** Authenticates a request using this instance's authenticateUser hook */
+  authenticateRequest: (req: Request, res: Response) => Promise<AuthenticatedUser | null>;
+  /** Middleware that authenticates once per request, as vortexAuth() with this instance's hooks */
+  auth: (options?: VortexAuthOptions) => (req: Request, res: Response, next: NextFunction) => Promise<void>;
+  /** Express router with all Vortex routes registered */
+  router: Router;
+  /** Individual route handlers, as returned by createVortexRoutes() */
+  routes: VortexRoutes;
+  /** Individual request handlers, as exported at the package level */
+  handlers: VortexHandlers;
+  /** Registers all Vortex routes on an app under the given base path */
+  register: (app: Parameters<typeof registerVortexRoutes>[0], basePath?: string) => void;
+}
+
+/**
+ * Creates a Vortex instance bound to its own configuration.
+ * Use this instead of configureVortex() when running several Express apps
+ * with different API keys or hooks in one process, or to reconfigure between
+ * test suites.
+ *
+ * Usage:
+ * ```typescript
+ * import express from 'express';
+ * import { createVortex } from '@teamvortexsoftware/vortex-express-5-sdk';
+ *
+ * const publicVortex = createVortex({ apiKey: process.env.PUBLIC_VORTEX_API_KEY!, ... });
+ * const adminVortex = createVortex({ apiKey: process.env.ADMIN_VORTEX_API_KEY!, ... });
+ *
+ * publicApp.use(express.json());
+ * publicApp.use('/api/vortex', publicVortex.router);
+ *
+ * adminApp.use(express.json());
+ * adminApp.use('/api/vortex', adminVortex.router);
+ * ```
+ */
+export function createVortex(config: VortexConfig): VortexInstance {
+  const provider = createVortexConfigProvider(config);
+
+  return {
+    getConfig: provider,
+    authenticateRequest: withVortexConfig(authenticateRequest, provider),
+    auth: (options) => {
+      const middleware = vortexAuth(options);
+      return async (req, res, next) => {
+        // Bind this instance's config only while authenticating, so later
+        // middleware and handlers keep resolving their own
+        const previous = res.locals.vortexConfigProvider;
+        let passed = false;
+        res.locals.vortexConfigProvider = provider;
+        try {
+          await middleware(req, res, (err?: unknown) => {
+            passed = true;
+            res.locals.vortexConfigProvider = previous;
+            next(err);
+          });
+        } finally {
+          if (!passed) {
+            res.locals.vortexConfigProvider = previous;
+          }
+        }
+      };
+    },
+    router: createVortexRouter(provider),
+    routes: createVortexRoutes(provider),
+    handlers: {
+      handleJwtGeneration: withVortexConfig(handleJwtGeneration, provider),
+      handleJwtRefresh: withVortexConfig(handleJwtRefresh, provider),
+      handleGetInvitationsByTarget: withVortexConfig(handleGetInvitationsByTarget, provider),
+      handleGetInvitation: withVortexConfig(handleGetInvitation, provider),
+      handleRevokeInvitation: withVortexConfig(handleRevokeInvitation, provider),
+      handleAcceptInvitations: withVortexConfig(handleAcceptInvitations, provider),
+      handleGetInvitationsByGroup: withVortexConfig(handleGetInvitationsByGroup, provider),
+      handleGetInvitationsByScope: withVortexConfig(handleGetInvitationsByScope, provider),
+      handleDeleteInvitationsByGroup: withVortexConfig(handleDeleteInvitationsByGroup, provider),
+      handleDeleteInvitationsByScope: withVortexConfig(handleDeleteInvitationsByScope, provider),
+      handleReinvite: withVortexConfig(handleReinvite, provider),
+      handleSyncInternalInvitation: withVortexConfig(handleSyncInternalInvitation, provider),
+      handleCreateInvitation: withVortexConfig(handleCreateInvitation, provider),
+      handleEventStream: withVortexConfig(handleEventStream, provider),
+    },
+    register: (app, basePath) => registerVortexRoutes(app, basePath, provider),
+  };
+}
@@ -0,0 +1,248 @@
+import { createHash } from 'node:crypto';
+import { Request } from 'express';
+import type { AuthenticatedUser, VortexConfig } from './config';
+import { getVortexClient } from './client';
+
+/**
+ * A token issued by the JWT routes
+ */
+export interface IssuedJwt {
+  jwt: string;
+  /** When the token expires, as an ISO-8601 timestamp */
+  expiresAt: string;
+}
+
+/**
+ * Storage for issued tokens, keyed by user and token contents. Implement
+ * this to share tokens between processes.
+ */
+export interface JwtCacheStore {
+  get(key: string): Promise<IssuedJwt | undefined>;
+  set(key: string, value: IssuedJwt, ttlMs: number): Promise<void>;
+}
+
+export interface VortexJwtOptions {
+  /** Token lifetime, e.g. '1h' or a number of seconds (default 30 days) */
+  expiresIn?: string | number;
+  /** Sets the `aud` claim */
+  audience?: string;
+  /**
+   * Extra claims added to every token. Claims derived from the user
+   * (`userId`, `userEmail`, `expires`, `identifiers`, `name`, `avatarUrl`,
+   * `adminScopes`, `allowedEmailDomains`, `role`, `userIsAutojoinAdmin`) and
+   * `attributes` are dropped, so they can't be overridden.
+   */
+  claims?:
+    | Record<string, unknown>
+    | ((user: AuthenticatedUser, request: Request) => Record<string, unknown> | Promise<Record<string, unknown>>);
+  /**
+   * Reuse a user's token while more than half of its lifetime remains, instead
+   * of minting one per request. Pass `true` for a process-wide in-memory store.
+   */
+  cache?: boolean | { store?: JwtCacheStore };
+  /**
+   * Which of the user's `attributes` are copied into tokens. `allow` keeps only
+   * the listed attributes and `deny` drops the listed ones; by default all are
+   * copied.
+   */
+  attributes?: { allow?: string[]; deny?: string[] };
+  /** Largest allowed size of the signed token's payload as JSON, in bytes (default 8 KB) */
+  maxClaimsBytes?: number;
+  /**
+   * Log the claims of each issued token with console.debug. Names, emails,
+   * avatar URLs and phone numbers are redacted, along with `redactClaims`.
+   */
+  debug?: boolean;
+  /** More claim names to redact from debug logs, at any depth */
+  redactClaims?: string[];
+}
+
+/**
+ * Keeps issued tokens in process memory
+ */
+export class MemoryJwtCacheStore implements JwtCacheStore {
+  private readonly entries = new Map<string, { value: IssuedJwt; expiresAt: number }>();
+
+  async get(key: string): Promise<IssuedJwt | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: IssuedJwt, ttlMs: number): Promise<void> {
+    this.sweep();
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  // Entries with the same lifetime are in expiry order, so stop at the first live one
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt > now) break;
+      this.entries.delete(key);
+    }
+  }
+}
+
+let defaultStore: MemoryJwtCacheStore | undefined;
+
+// Set by generateJwt from the user, which extra claims would otherwise overwrite
+const RESERVED_CLAIMS = new Set([
+  'user',
+  'userId',
+  'userEmail',
+  'expires',
+  'identifiers',
+  'name',
+  'avatarUrl',
+  'adminScopes',
+  'allowedEmailDomains',
+  'role',
+  'userIsAutojoinAdmin',
+  // Filtered by jwt.attributes, which extra claims must not bypass
+  'attributes',
+]);
+const DEFAULT_MAX_CLAIMS_BYTES = 8 * 1024;
+const PII_CLAIMS = ['email', 'userEmail', 'name', 'userName', 'avatarUrl', 'userAvatarUrl', 'phone'];
+
+function getCacheStore(options: VortexJwtOptions | undefined): JwtCacheStore | null {
+  const cache = options?.cache;
+  if (!cache) {
+    return null;
+  }
+  return (cache === true ? undefined : cache.store) ?? (defaultStore ??= new MemoryJwtCacheStore());
+}
+
+// The SDK encodes the expiry as `expires`, in seconds since the epoch
+function getExpiry(payload: Buffer): number {
+  return JSON.parse(payload.toString('utf8')).expires * 1000;
+}
+
+function withoutReservedClaims(claims: Record<string, unknown> | undefined): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(claims ?? {}).filter(([claim]) => !RESERVED_CLAIMS.has(claim)));
+}
+
+function filterAttributes(
+  attributes: Record<string, unknown> | undefined,
+  options: VortexJwtOptions['attributes']
+): Record<string, unknown> | undefined {
+  if (!attributes || !options) {
+    return attributes;
+  }
+  const allow = options.allow && new Set(options.allow);
+  const deny = new Set(options.deny);
+  return Object.fromEntries(
+    Object.entries(attributes).filter(([name]) => (!allow || allow.has(name)) && !deny.has(name))
+  );
+}
+
+function redact(value: unknown, names: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, names));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        names.has(key.toLowerCase()) ? '[REDACTED]' : redact(item, names),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Builds the parameters passed to generateJwt for a user
+ */
+async function getJwtParams(
+  req: Request,
+  config: VortexConfig,
+  user: AuthenticatedUser
+): Promise<{ user: { id: string; email?: string }; [claim: string]: unknown }> {
+  // Prefer new property names (name/avatarUrl), fall back to deprecated (userName/userAvatarUrl)
+  const userName = user.name ?? user.userName;
+  const userAvatarUrl = user.avatarUrl ?? user.userAvatarUrl;
+  const options = config.jwt;
+  const claims = typeof options?.claims === 'function' ? await options.claims(user, req) : options?.claims;
+  const mapped = config.mapJwtClaims ? await config.mapJwtClaims(user, req) : undefined;
+  const attributes = filterAttributes(user.attributes, options?.attributes);
+
+  return {
+    // Add attributes if present
+    ...(attributes && { attributes }),
+    ...withoutReservedClaims(claims),
+    ...withoutReservedClaims(mapped),
+    ...(options?.audience && { aud: options.audience }),
+    user: {
+      id: user.userId,
+      email: user.userEmail,
+      ...(userName && { name: userName }),
+      ...(userAvatarUrl && { avatarUrl: userAvatarUrl }),
+      ...(user.adminScopes &&
+        user.adminScopes.length > 0 && {
+          adminScopes: user.adminScopes,
+        }),
+      ...(user.allowedEmailDomains &&
+        user.allowedEmailDomains.length > 0 && {
+          allowedEmailDomains: user.allowedEmailDomains,
+        }),
+    },
+  };
+}
+
+/**
+ * Issues a token for the user, reusing a cached one when jwt.cache is
+ * enabled unless `refresh` is set.
+ */
+export async function issueJwt(
+  req: Request,
+  config: VortexConfig,
+  user: AuthenticatedUser,
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<IssuedJwt> {
+  const params = await getJwtParams(req, config, user);
+
+  const store = getCacheStore(config.jwt);
+  // Keyed by the token contents, so a change to the user's claims mints a new token
+  const key = createHash('sha256')
+    .update(JSON.stringify([config.apiKey, config.jwt?.expiresIn ?? null, params]))
+    .digest('hex');
+
+  if (store && !refresh) {
+    const cached = await store.get(key);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  if (config.jwt?.debug) {
+    const names = new Set([...PII_CLAIMS, ...(config.jwt.redactClaims ?? [])].map((name) => name.toLowerCase()));
+    console.debug(`Issuing Vortex JWT for user ${user.userId}:`, redact(params, names));
+  }
+
+  const vortex = getVortexClient(config);
+  const jwt = vortex.generateJwt(params, { expiresIn: config.jwt?.expiresIn });
+  const payload = Buffer.from(jwt.split('.')[1], 'base64url');
+  const maxClaimsBytes = config.jwt?.maxClaimsBytes ?? DEFAULT_MAX_CLAIMS_BYTES;
+  if (payload.length > maxClaimsBytes) {
+    // Thrown as an internal error, so the sizes are only logged
+    throw new Error(`Vortex JWT claims are ${payload.length} bytes, over the ${maxClaimsBytes} byte limit`);
+  }
+  const expiresAt = getExpiry(payload);
+  const issued = { jwt, expiresAt: new Date(expiresAt).toISOString() };
+
+  if (store) {
+    try {
+      await store.set(key, issued, Math.floor((expiresAt - Date.now()) / 2));
+    } catch (error) {
+      // The token is still valid; the next request mints another
+      console.error('Failed to cache Vortex JWT:', error);
+    }
+  }
+  return issued;
+}
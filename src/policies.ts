@@ -0,0 +1,411 @@
+import { Request, Response } from 'express';
+import type { InvitationResult } from '@teamvortexsoftware/vortex-node-22-sdk';
+import { getRequestInvitation } from './client';
+import {
+  AccessControlHook,
+  AuthenticatedUser,
+  CreateInvitationResource,
+  InvitationResource,
+  InvitationTargetResource,
+  ScopeResource,
+  SyncInternalInvitationResource,
+  VortexConfig,
+} from './config';
+import { VortexForbiddenError, VortexHttpError } from './errors';
+
+/**
+ * Built-in access policies, applied by the invitation handlers when no
+ * explicit can* hook is configured for a route. A configured hook replaces
+ * the built-in policy for that route entirely. The adminScopes checks only
+ * apply with enforceAdminScopes.
+ */
+
+/**
+ * Returns the domain part of an email address, lowercased
+ */
+export function getEmailDomain(email: string): string {
+  return email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+}
+
+/**
+ * Checks an email against the user's allowedEmailDomains. Users without
+ * domain restrictions may invite any address.
+ */
+export function isEmailDomainAllowed(user: AuthenticatedUser, email: string): boolean {
+  const allowedDomains = user.allowedEmailDomains;
+  if (!allowedDomains || allowedDomains.length === 0) {
+    return true;
+  }
+
+  const domain = getEmailDomain(email);
+  return allowedDomains.some((allowed) => allowed.replace(/^@/, '').toLowerCase() === domain);
+}
+
+/**
+ * Checks whether the user is an admin of the given scope
+ */
+export function isScopeAdmin(user: AuthenticatedUser, scopeId: string): boolean {
+  return user.adminScopes?.includes(scopeId) ?? false;
+}
+
+/**
+ * Returns the IDs of the scopes an invitation belongs to
+ */
+export function getInvitationScopeIds(invitation: InvitationResult): string[] {
+  const scopes = invitation.scopes ?? invitation.groups ?? [];
+  return scopes.map((scope) => scope.scopeId ?? scope.groupId).filter(Boolean);
+}
+
+/**
+ * Throws unless the email is within the user's allowedEmailDomains
+ */
+export function assertEmailDomainAllowed(user: AuthenticatedUser, email: string): void {
+  if (!isEmailDomainAllowed(user, email)) {
+    throw new VortexHttpError(403, 'Invitations to this email domain are not allowed', {
+      code: 'email_domain_not_allowed',
+    });
+  }
+}
+
+/**
+ * Throws unless the user is an admin of the given scope
+ */
+export function assertScopeAdmin(user: AuthenticatedUser, scopeId: string): void {
+  if (!isScopeAdmin(user, scopeId)) {
+    throw new VortexForbiddenError('Access denied. You are not an admin of this scope.');
+  }
+}
+
+/**
+ * Throws unless the user is an admin of one of the invitation's scopes.
+ * Invitations without a scope can only be managed through access control hooks.
+ */
+export function assertInvitationAdmin(user: AuthenticatedUser, invitation: InvitationResult): void {
+  if (!getInvitationScopeIds(invitation).some((scopeId) => isScopeAdmin(user, scopeId))) {
+    throw new VortexForbiddenError('Access denied. You are not an admin of this invitation\'s scope.');
+  }
+}
+
+/**
+ * Throws unless every email target of the invitation is within the user's
+ * allowedEmailDomains
+ */
+export function assertInvitationTargetsAllowed(user: AuthenticatedUser, invitation: InvitationResult): void {
+  for (const target of invitation.target ?? []) {
+    if (target.type === 'email') {
+      assertEmailDomainAllowed(user, target.value);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Declarative policies
+// ---------------------------------------------------------------------------
+
+/**
+ * The access control hook each policy action compiles to
+ */
+export const POLICY_ACTION_HOOKS = {
+  'invitation.read': 'canAccessInvitation',
+  'invitation.create': 'canCreateInvitation',
+  'invitation.revoke': 'canDeleteInvitation',
+  'invitation.reinvite': 'canReinvite',
+  'invitation.accept': 'canAcceptInvitations',
+  'invitation.syncInternal': 'canSyncInternalInvitation',
+  'invitations.byTarget': 'canAccessInvitationsByTarget',
+  'scope.read': 'canAccessInvitationsByScope',
+  'scope.delete': 'canDeleteInvitationsByScope',
+} as const satisfies Record<string, keyof VortexConfig>;
+
+export type PolicyAction = keyof typeof POLICY_ACTION_HOOKS;
+
+type PolicyHookName = (typeof POLICY_ACTION_HOOKS)[PolicyAction];
+
+/**
+ * What a predicate is evaluated against
+ */
+export interface PolicyContext {
+  action: PolicyAction;
+  request: Request;
+  response: Response;
+  user: AuthenticatedUser | null;
+  resource?: unknown;
+  /** Fetches the invitation an invitation action targets, once per request */
+  getInvitation(): Promise<InvitationResult | null>;
+}
+
+export type PolicyPredicate = (context: PolicyContext) => boolean | Promise<boolean>;
+
+/**
+ * A predicate name, a predicate function, or a nested list of rules that
+ * must all pass
+ */
+export type PolicyRule = string | PolicyPredicate | PolicyRule[];
+
+/**
+ * Rules per action. An action is allowed when any of its rules passes.
+ */
+export type PolicyRules = Partial<Record<PolicyAction, PolicyRule[]>>;
+
+export interface PolicyOptions {
+  /** Additional named predicates, usable alongside the built-in ones */
+  predicates?: Record<string, PolicyPredicate>;
+  /** Called with every decision, e.g. to log denials */
+  onDecision?: (decision: PolicyDecision) => void;
+}
+
+export interface PolicyRuleResult {
+  rule: string;
+  allowed: boolean;
+  error?: unknown;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  allowed: boolean;
+  /** The first rule that allowed the action */
+  matchedRule?: string;
+  /** Every rule of the action and its outcome */
+  rules: PolicyRuleResult[];
+}
+
+export type VortexPolicy = Pick<VortexConfig, PolicyHookName>;
+
+function isScopeResource(resource: unknown): resource is ScopeResource {
+  return typeof (resource as ScopeResource | undefined)?.scope === 'string';
+}
+
+function isCreateInvitationResource(resource: unknown): resource is CreateInvitationResource {
+  return typeof (resource as CreateInvitationResource | undefined)?.inviter === 'object';
+}
+
+function isInvitationTargetResource(resource: unknown): resource is InvitationTargetResource {
+  return Array.isArray((resource as InvitationTargetResource | undefined)?.invitationIds);
+}
+
+function isSyncInternalInvitationResource(resource: unknown): resource is SyncInternalInvitationResource {
+  return typeof (resource as SyncInternalInvitationResource | undefined)?.creatorId === 'string';
+}
+
+function userIdentifiers(user: AuthenticatedUser): string[] {
+  return [user.userEmail, ...(user.identifiers ?? []).map((identifier) => identifier.value)]
+    .filter((value): value is string => !!value)
+    .map((value) => value.toLowerCase());
+}
+
+async function getResourceScopeIds(context: PolicyContext): Promise<string[]> {
+  const { resource } = context;
+  if (isScopeResource(resource)) {
+    return [resource.scope];
+  }
+  if (isCreateInvitationResource(resource)) {
+    return resource.scope?.scopeId ? [resource.scope.scopeId] : [];
+  }
+  const invitation = await context.getInvitation();
+  return invitation ? getInvitationScopeIds(invitation) : [];
+}
+
+/**
+ * Predicates available by name in every policy
+ */
+export const BUILT_IN_PREDICATES: Record<string, PolicyPredicate> = {
+  anyone: () => true,
+
+  authenticated: ({ user }) => user !== null,
+
+  /** The user administers the scope the resource belongs to */
+  scopeAdmin: async (context) => {
+    const { user } = context;
+    if (!user) return false;
+    const scopeIds = await getResourceScopeIds(context);
+    return scopeIds.some((scopeId) => isScopeAdmin(user, scopeId));
+  },
+
+  /** The user created the invitation */
+  creator: async (context) => {
+    const { user, resource } = context;
+    if (!user) return false;
+    if (isSyncInternalInvitationResource(resource)) {
+      return resource.creatorId === user.userId;
+    }
+    const invitation = await context.getInvitation();
+    return invitation?.foreignCreatorId === user.userId;
+  },
+
+  /** The user is a recipient of the invitation */
+  invitee: async (context) => {
+    const { user, resource } = context;
+    if (!user) return false;
+    const identifiers = userIdentifiers(user);
+    if (isInvitationTargetResource(resource)) {
+      const values = [resource.user?.email, resource.user?.phone, resource.target?.value];
+      return values.some((value) => !!value && identifiers.includes(value.toLowerCase()));
+    }
+    const invitation = await context.getInvitation();
+    return (invitation?.target ?? []).some((target) => identifiers.includes(target.value.toLowerCase()));
+  },
+
+  /** Every email target is within the user's allowedEmailDomains */
+  emailDomainAllowed: async (context) => {
+    const { user, resource } = context;
+    if (!user) return false;
+    if (isCreateInvitationResource(resource)) {
+      return resource.target.type !== 'email' || isEmailDomainAllowed(user, resource.target.value);
+    }
+    const invitation = await context.getInvitation();
+    return (invitation?.target ?? []).every(
+      (target) => target.type !== 'email' || isEmailDomainAllowed(user, target.value)
+    );
+  },
+};
+
+interface CompiledPolicy {
+  rules: PolicyRules;
+  predicates: Record<string, PolicyPredicate>;
+}
+
+const compiledPolicies = new WeakMap<VortexPolicy, CompiledPolicy>();
+
+function describeRule(rule: PolicyRule): string {
+  if (typeof rule === 'string') return rule;
+  if (Array.isArray(rule)) return `all(${rule.map(describeRule).join(', ')})`;
+  return rule.name || 'custom';
+}
+
+async function evaluateRule(
+  rule: PolicyRule,
+  context: PolicyContext,
+  predicates: Record<string, PolicyPredicate>
+): Promise<boolean> {
+  if (Array.isArray(rule)) {
+    for (const child of rule) {
+      if (!(await evaluateRule(child, context, predicates))) return false;
+    }
+    return true;
+  }
+  const predicate = typeof rule === 'string' ? predicates[rule] : rule;
+  if (!predicate) {
+    throw new Error(`Unknown policy predicate: ${rule}`);
+  }
+  return (await predicate(context)) === true;
+}
+
+function createPolicyContext(
+  action: PolicyAction,
+  request: Request,
+  response: Response,
+  user: AuthenticatedUser | null,
+  resource?: unknown
+): PolicyContext {
+  return {
+    action,
+    request,
+    response,
+    user,
+    resource,
+    async getInvitation() {
+      const { invitationId, invitation } = (resource ?? {}) as Partial<InvitationResource>;
+      if (invitation) {
+        return invitation;
+      }
+      return typeof invitationId === 'string' ? getRequestInvitation(request, response, invitationId) : null;
+    },
+  };
+}
+
+async function decide(
+  policy: CompiledPolicy,
+  context: PolicyContext,
+  exhaustive: boolean
+): Promise<PolicyDecision> {
+  const decision: PolicyDecision = { action: context.action, allowed: false, rules: [] };
+
+  for (const rule of policy.rules[context.action] ?? []) {
+    const result: PolicyRuleResult = { rule: describeRule(rule), allowed: false };
+    decision.rules.push(result);
+    try {
+      result.allowed = await evaluateRule(rule, context, policy.predicates);
+    } catch (error) {
+      if (!exhaustive) throw error;
+      result.error = error;
+    }
+
+    if (result.allowed && !decision.allowed) {
+      decision.allowed = true;
+      decision.matchedRule = result.rule;
+      if (!exhaustive) break;
+    }
+  }
+  return decision;
+}
+
+/**
+ * Compiles declarative rules into access control hooks. Spread the result
+ * into your config; actions without rules keep their default behavior.
+ *
+ * Usage:
+ * ```typescript
+ * configureVortex({
+ *   apiKey: process.env.VORTEX_API_KEY!,
+ *   authenticateUser,
+ *   ...definePolicy({
+ *     'invitation.revoke': ['scopeAdmin', 'creator'],
+ *     'invitation.accept': ['invitee'],
+ *     'invitation.create': [['scopeAdmin', 'emailDomainAllowed']],
+ *   }),
+ * });
+ * ```
+ */
+export function definePolicy(rules: PolicyRules, options: PolicyOptions = {}): VortexPolicy {
+  const compiled: CompiledPolicy = {
+    rules,
+    predicates: { ...BUILT_IN_PREDICATES, ...options.predicates },
+  };
+
+  // Fail fast on typos rather than on the first request
+  const visit = (rule: PolicyRule): void => {
+    if (Array.isArray(rule)) {
+      rule.forEach(visit);
+    } else if (typeof rule === 'string' && !compiled.predicates[rule]) {
+      throw new Error(`Unknown policy predicate: ${rule}`);
+    }
+  };
+  Object.values(rules).forEach((actionRules) => actionRules?.forEach(visit));
+
+  const policy: VortexPolicy = {};
+  for (const action of Object.keys(rules) as PolicyAction[]) {
+    const hook: AccessControlHook<unknown> = async (request, response, user, resource) => {
+      const context = createPolicyContext(action, request, response, user, resource);
+      const decision = await decide(compiled, context, false);
+      options.onDecision?.(decision);
+      return decision.allowed;
+    };
+    Object.assign(policy, { [POLICY_ACTION_HOOKS[action]]: hook });
+  }
+
+  compiledPolicies.set(policy, compiled);
+  return policy;
+}
+
+/**
+ * Evaluates every rule of an action and reports which ones passed, without
+ * stopping at the first match. Predicate errors are recorded, not thrown.
+ */
+export async function explainDecision(
+  policy: VortexPolicy,
+  action: PolicyAction,
+  context: {
+    request: Request;
+    response: Response;
+    user: AuthenticatedUser | null;
+    resource?: unknown;
+  }
+): Promise<PolicyDecision> {
+  const compiled = compiledPolicies.get(policy);
+  if (!compiled) {
+    throw new Error('explainDecision() requires a policy returned by definePolicy()');
+  }
+
+  const { request, response, user, resource } = context;
+  return decide(compiled, createPolicyContext(action, request, response, user, resource), true);
+}
@@ -0,0 +1,191 @@
+import { createHash } from 'node:crypto';
+import { Request, Response } from 'express';
+import { AuthenticatedUser, getRequestVortexConfig, authenticateRequest } from './config';
+import { VortexHttpError } from './errors';
+import type { PolicyAction } from './policies';
+import { handleVortexError } from './utils';
+
+/**
+ * Route names used for per-route budgets, matching the policy action names
+ * for the invitation routes
+ */
+export type RateLimitedRoute = 'jwt' | 'events' | PolicyAction;
+
+/**
+ * What requests are counted by: the authenticated user (falling back to the
+ * IP for anonymous requests), the client IP, the scope in the route params
+ * or body, or a custom function. Returning null skips the limit.
+ */
+export type RateLimitKey =
+  | 'user'
+  | 'ip'
+  | 'scope'
+  | ((request: Request, user: AuthenticatedUser | null) => string | null | Promise<string | null>);
+
+export interface RateLimitBudget {
+  /** Requests allowed per window; also the burst size */
+  limit: number;
+  windowMs: number;
+  /** Each key is limited separately (default 'user') */
+  keyBy?: RateLimitKey | RateLimitKey[];
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Milliseconds until the next request would be allowed */
+  retryAfterMs: number;
+}
+
+/**
+ * Storage for rate limit counters. Implement this to share limits between
+ * processes, e.g. with a Redis script that refills and takes tokens atomically.
+ */
+export interface RateLimitStore {
+  /**
+   * Takes one request from the budget of every key, or from none of them
+   * when any key is out of requests
+   */
+  consume(keys: string[], budget: { limit: number; windowMs: number }): Promise<RateLimitResult>;
+}
+
+export interface VortexRateLimitOptions {
+  /** Where counters are stored (defaults to an in-memory token bucket shared by the process) */
+  store?: RateLimitStore;
+  /** Budget for routes without their own entry in `routes` */
+  default?: RateLimitBudget | false;
+  /** Budgets per route; `false` disables limiting for the route */
+  routes?: Partial<Record<RateLimitedRoute, RateLimitBudget | false>>;
+}
+
+/**
+ * Token bucket rate limiter kept in process memory. Buckets hold up to
+ * `limit` tokens and refill at `limit` per `windowMs`.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, { tokens: number; updatedAt: number; windowMs: number }>();
+  private consumedSinceSweep = 0;
+
+  async consume(keys: string[], budget: { limit: number; windowMs: number }): Promise<RateLimitResult> {
+    const now = Date.now();
+    const refillPerMs = budget.limit / budget.windowMs;
+    const buckets = keys.map((key) => {
+      const bucket = this.buckets.get(key) ?? { tokens: budget.limit, updatedAt: now, windowMs: budget.windowMs };
+      bucket.tokens = Math.min(budget.limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = now;
+      bucket.windowMs = budget.windowMs;
+      this.buckets.set(key, bucket);
+      return bucket;
+    });
+    this.sweep(now);
+
+    const lowest = Math.min(budget.limit, ...buckets.map((bucket) => bucket.tokens));
+    const allowed = lowest >= 1;
+    if (allowed) {
+      for (const bucket of buckets) {
+        bucket.tokens -= 1;
+      }
+    }
+
+    return {
+      allowed,
+      remaining: Math.floor(allowed ? lowest - 1 : lowest),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - lowest) / refillPerMs),
+    };
+  }
+
+  // Buckets idle for a full window have refilled and can be forgotten
+  private sweep(now: number): void {
+    if (++this.consumedSinceSweep < 1000) return;
+    this.consumedSinceSweep = 0;
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= bucket.windowMs) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+let defaultStore: MemoryRateLimitStore | undefined;
+
+function getClientIp(request: Request): string | null {
+  return request.ip ?? request.socket?.remoteAddress ?? null;
+}
+
+function getRequestScope(request: Request): string | null {
+  const scope = request.params?.scope ?? request.params?.groupId ?? request.body?.scopeId;
+  return typeof scope === 'string' && scope.length > 0 ? scope : null;
+}
+
+async function resolveKey(
+  key: RateLimitKey,
+  request: Request,
+  user: AuthenticatedUser | null
+): Promise<string | null> {
+  switch (key) {
+    case 'user': {
+      if (user) return `user:${user.userId}`;
+      const ip = getClientIp(request);
+      return ip ? `ip:${ip}` : null;
+    }
+    case 'ip': {
+      const ip = getClientIp(request);
+      return ip ? `ip:${ip}` : null;
+    }
+    case 'scope': {
+      const scope = getRequestScope(request);
+      return scope ? `scope:${scope}` : null;
+    }
+    default: {
+      const value = await key(request, user);
+      return value === null ? null : `custom:${value}`;
+    }
+  }
+}
+
+/**
+ * Wraps a handler so requests over the route's budget respond 429 with a
+ * Retry-After header. Budgets come from VortexConfig.rateLimit; routes are
+ * not limited unless it is configured. createVortexRoutes() applies this to
+ * every route.
+ */
+export function withRateLimit<H extends (req: Request, res: Response) => Promise<unknown>>(
+  route: RateLimitedRoute,
+  handler: H
+): H {
+  return (async (req: Request, res: Response) => {
+    try {
+      const config = await getRequestVortexConfig(req, res);
+      const options = config.rateLimit;
+      const budget = options ? (options.routes?.[route] ?? options.default) : undefined;
+      if (!options || !budget) {
+        return handler(req, res);
+      }
+
+      const store = options.store ?? (defaultStore ??= new MemoryRateLimitStore());
+      const keys = Array.isArray(budget.keyBy) ? budget.keyBy : [budget.keyBy ?? 'user'];
+      const user = await authenticateRequest(req, res);
+      // Counters are namespaced per API key so instances sharing a store don't collide
+      const namespace = createHash('sha256').update(config.apiKey).digest('hex').slice(0, 16);
+
+      const values = await Promise.all(keys.map((key) => resolveKey(key, req, user)));
+      const storeKeys = values
+        .filter((value): value is string => value !== null)
+        .map((value) => `${namespace}:${route}:${value}`);
+
+      // A request denied by one key doesn't spend the budget of the others
+      const result = storeKeys.length > 0 ? await store.consume(storeKeys, budget) : undefined;
+      if (result && !result.allowed) {
+        const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+        res.setHeader('Retry-After', String(retryAfter));
+        throw new VortexHttpError(429, 'Too many requests, try again later', {
+          details: { retryAfter },
+        });
+      }
+    } catch (error) {
+      return handleVortexError(req, res, error, 'withRateLimit');
+    }
+
+    return handler(req, res);
+  }) as H;
+}
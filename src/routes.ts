@@ -1,5 +1,14 @@
 import { Request, Response, Router } from 'express';
-import { handleJwtGeneration } from './handlers/jwt';
+import {
+  VortexConfig,
+  VortexConfigProvider,
+  createVortexConfigProvider,
+  withVortexConfig,
+} from './config';
+import { vortexErrorHandler } from './errors';
+import { withIdempotency } from './idempotency';
+import { withRateLimit } from './rate-limit';
+import { handleJwtGeneration, handleJwtRefresh } from './handlers/jwt';
 import {
   handleGetInvitationsByTarget,
   handleGetInvitation,
@@ -9,7 +18,9 @@ import {
   handleDeleteInvitationsByScope,
   handleReinvite,
   handleSyncInternalInvitation,
+  handleCreateInvitation,
 } from './handlers/invitations';
+import { handleEventStream } from './handlers/events';
 
 /**
  * Expected route paths that match the React provider's API calls
@@ -17,6 +28,7 @@ import {
  */
 export const VORTEX_ROUTES = {
   JWT: '/jwt',
+  JWT_REFRESH: '/jwt/refresh',
   INVITATIONS: '/invitations',
   INVITATION: '/invitations/:invitationId',
   INVITATIONS_ACCEPT: '/invitations/accept',
@@ -25,6 +37,7 @@ export const VORTEX_ROUTES = {
   INVITATIONS_BY_SCOPE: '/invitations/by-scope/:scopeType/:scope',
   INVITATION_REINVITE: '/invitations/:invitationId/reinvite',
   SYNC_INTERNAL_INVITATION: '/invitations/sync-internal-invitation',
+  EVENTS: '/events',
 } as const;
 
 /**
@@ -43,6 +56,15 @@ export function createVortexJwtRoute(): (req: Request, res: Response) => Promise
   };
 }
 
+/**
+ * Creates individual route handlers for JWT refresh endpoint
+ */
+export function createVortexJwtRefreshRoute(): (req: Request, res: Response) => Promise<Response> {
+  return async function(req: Request, res: Response) {
+    return handleJwtRefresh(req, res);
+  };
+}
+
 /**
  * Creates individual route handlers for invitations endpoint
  */
@@ -52,6 +74,15 @@ export function createVortexInvitationsRoute(): (req: Request, res: Response) =>
   };
 }
 
+/**
+ * Creates individual route handlers for create invitation endpoint
+ */
+export function createVortexCreateInvitationRoute(): (req: Request, res: Response) => Promise<Response> {
+  return async function(req: Request, res: Response) {
+    return handleCreateInvitation(req, res);
+  };
+}
+
 /**
  * Creates individual route handlers for single invitation endpoint
  */
@@ -124,12 +155,22 @@ export function createVortexSyncInternalInvitationRoute(): (req: Request, res: R
 }
 
 /**
- * Creates all Vortex routes for easy registration
- * This provides individual handlers that can be attached to specific routes
+ * Creates individual route handlers for the event stream endpoint
+ */
+export function createVortexEventsRoute(): (req: Request, res: Response) => Promise<Response> {
+  return async function(req: Request, res: Response) {
+    return handleEventStream(req, res);
+  };
+}
+
+/**
+ * Individual route handlers returned by createVortexRoutes()
  */
-export function createVortexRoutes(): {
+export interface VortexRoutes {
   jwt: (req: Request, res: Response) => Promise<Response>;
+  jwtRefresh: (req: Request, res: Response) => Promise<Response>;
   invitations: (req: Request, res: Response) => Promise<Response>;
+  invitationsCreate: (req: Request, res: Response) => Promise<Response>;
   invitation: {
     get: (req: Request, res: Response) => Promise<Response>;
     delete: (req: Request, res: Response) => Promise<Response>;
@@ -146,17 +187,74 @@ export function createVortexRoutes(): {
   };
   invitationReinvite: (req: Request, res: Response) => Promise<Response>;
   syncInternalInvitation: (req: Request, res: Response) => Promise<Response>;
-} {
-  const scopeRoutes = createVortexInvitationsByScopeRoute();
-  return {
-    jwt: createVortexJwtRoute(),
-    invitations: createVortexInvitationsRoute(),
-    invitation: createVortexInvitationRoute(),
-    invitationsAccept: createVortexInvitationsAcceptRoute(),
+  events: (req: Request, res: Response) => Promise<Response>;
+}
+
+/**
+ * Creates all Vortex routes for easy registration
+ * This provides individual handlers that can be attached to specific routes
+ *
+ * When `config` is given, the handlers are bound to it instead of the global
+ * configuration set by configureVortex().
+ */
+export function createVortexRoutes(config?: VortexConfig | VortexConfigProvider): VortexRoutes {
+  const invitationRoutes = createVortexInvitationRoute();
+  const baseScopeRoutes = createVortexInvitationsByScopeRoute();
+  // Every route is rate limited by name; mutating routes also honor the Idempotency-Key header
+  const scopeRoutes = {
+    get: withRateLimit('scope.read', baseScopeRoutes.get),
+    delete: withRateLimit('scope.delete', withIdempotency(baseScopeRoutes.delete)),
+  };
+  const routes: VortexRoutes = {
+    jwt: withRateLimit('jwt', createVortexJwtRoute()),
+    jwtRefresh: withRateLimit('jwt', createVortexJwtRefreshRoute()),
+    invitations: withRateLimit('invitations.byTarget', createVortexInvitationsRoute()),
+    invitationsCreate: withRateLimit(
+      'invitation.create',
+      withIdempotency(createVortexCreateInvitationRoute())
+    ),
+    invitation: {
+      get: withRateLimit('invitation.read', invitationRoutes.get),
+      delete: withRateLimit('invitation.revoke', withIdempotency(invitationRoutes.delete)),
+    },
+    invitationsAccept: withRateLimit(
+      'invitation.accept',
+      withIdempotency(createVortexInvitationsAcceptRoute())
+    ),
     invitationsByGroup: scopeRoutes, // Deprecated alias
     invitationsByScope: scopeRoutes,
-    invitationReinvite: createVortexReinviteRoute(),
-    syncInternalInvitation: createVortexSyncInternalInvitationRoute(),
+    invitationReinvite: withRateLimit('invitation.reinvite', withIdempotency(createVortexReinviteRoute())),
+    syncInternalInvitation: withRateLimit(
+      'invitation.syncInternal',
+      withIdempotency(createVortexSyncInternalInvitationRoute())
+    ),
+    events: withRateLimit('events', createVortexEventsRoute()),
+  };
+
+  if (!config) {
+    return routes;
+  }
+
+  const provider = typeof config === 'function' ? config : createVortexConfigProvider(config);
+  const boundScopeRoutes = {
+    get: withVortexConfig(scopeRoutes.get, provider),
+    delete: withVortexConfig(scopeRoutes.delete, provider),
+  };
+  return {
+    jwt: withVortexConfig(routes.jwt, provider),
+    jwtRefresh: withVortexConfig(routes.jwtRefresh, provider),
+    invitations: withVortexConfig(routes.invitations, provider),
+    invitationsCreate: withVortexConfig(routes.invitationsCreate, provider),
+    invitation: {
+      get: withVortexConfig(routes.invitation.get, provider),
+      delete: withVortexConfig(routes.invitation.delete, provider),
+    },
+    invitationsAccept: withVortexConfig(routes.invitationsAccept, provider),
+    invitationsByGroup: boundScopeRoutes, // Deprecated alias
+    invitationsByScope: boundScopeRoutes,
+    invitationReinvite: withVortexConfig(routes.invitationReinvite, provider),
+    syncInternalInvitation: withVortexConfig(routes.syncInternalInvitation, provider),
+    events: withVortexConfig(routes.events, provider),
   };
 }
 
@@ -172,15 +270,20 @@ export function createVortexRoutes(): {
  * const app = express();
  * app.use(express.json()); // Required for parsing JSON bodies
  * app.use('/api/vortex', createVortexRouter());
+ *
+ * // Or with its own configuration, independent of configureVortex()
+ * app.use('/admin/vortex', createVortexRouter({ apiKey: process.env.ADMIN_VORTEX_API_KEY! }));
  * ```
  */
-export function createVortexRouter(): Router {
+export function createVortexRouter(config?: VortexConfig | VortexConfigProvider): Router {
   const router = Router();
-  const routes = createVortexRoutes();
+  const routes = createVortexRoutes(config);
 
   // Register all routes
   router.post(VORTEX_ROUTES.JWT, routes.jwt);
+  router.post(VORTEX_ROUTES.JWT_REFRESH, routes.jwtRefresh);
   router.get(VORTEX_ROUTES.INVITATIONS, routes.invitations);
+  router.post(VORTEX_ROUTES.INVITATIONS, routes.invitationsCreate);
   router.get(VORTEX_ROUTES.INVITATION, routes.invitation.get);
   router.delete(VORTEX_ROUTES.INVITATION, routes.invitation.delete);
   router.post(VORTEX_ROUTES.INVITATIONS_ACCEPT, routes.invitationsAccept);
@@ -192,6 +295,10 @@ export function createVortexRouter(): Router {
   router.delete(VORTEX_ROUTES.INVITATIONS_BY_SCOPE, routes.invitationsByScope.delete);
   router.post(VORTEX_ROUTES.INVITATION_REINVITE, routes.invitationReinvite);
   router.post(VORTEX_ROUTES.SYNC_INTERNAL_INVITATION, routes.syncInternalInvitation);
+  router.get(VORTEX_ROUTES.EVENTS, routes.events);
+
+  // Render anything thrown past the handlers with the standard error envelope
+  router.use(vortexErrorHandler());
 
   return router;
 }
@@ -212,13 +319,15 @@ export function createVortexRouter(): Router {
  * registerVortexRoutes(app, '/api/v1/vortex');
  * ```
  */
-export function registerVortexRoutes(app: { post: (path: string, handler: (req: Request, res: Response) => void) => void; get: (path: string, handler: (req: Request, res: Response) => void) => void; delete: (path: string, handler: (req: Request, res: Response) => void) => void }, basePath: string = '/api/vortex'): void {
-  const routes = createVortexRoutes();
+export function registerVortexRoutes(app: { post: (path: string, handler: (req: Request, res: Response) => void) => void; get: (path: string, handler: (req: Request, res: Response) => void) => void; delete: (path: string, handler: (req: Request, res: Response) => void) => void }, basePath: string = '/api/vortex', config?: VortexConfig | VortexConfigProvider): void {
+  const routes = createVortexRoutes(config);
   const cleanBasePath = basePath.replace(/\/$/, '');
 
   // Register all routes with the base path
   app.post(`${cleanBasePath}${VORTEX_ROUTES.JWT}`, routes.jwt);
+  app.post(`${cleanBasePath}${VORTEX_ROUTES.JWT_REFRESH}`, routes.jwtRefresh);
   app.get(`${cleanBasePath}${VORTEX_ROUTES.INVITATIONS}`, routes.invitations);
+  app.post(`${cleanBasePath}${VORTEX_ROUTES.INVITATIONS}`, routes.invitationsCreate);
   app.get(`${cleanBasePath}${VORTEX_ROUTES.INVITATION}`, routes.invitation.get);
   app.delete(`${cleanBasePath}${VORTEX_ROUTES.INVITATION}`, routes.invitation.delete);
   app.post(`${cleanBasePath}${VORTEX_ROUTES.INVITATIONS_ACCEPT}`, routes.invitationsAccept);
@@ -230,4 +339,5 @@ export function registerVortexRoutes(app: { post: (path: string, handler: (req:
   app.delete(`${cleanBasePath}${VORTEX_ROUTES.INVITATIONS_BY_SCOPE}`, routes.invitationsByScope.delete);
   app.post(`${cleanBasePath}${VORTEX_ROUTES.INVITATION_REINVITE}`, routes.invitationReinvite);
   app.post(`${cleanBasePath}${VORTEX_ROUTES.SYNC_INTERNAL_INVITATION}`, routes.syncInternalInvitation);
+  app.get(`${cleanBasePath}${VORTEX_ROUTES.EVENTS}`, routes.events);
 }
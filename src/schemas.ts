@@ -0,0 +1,132 @@
+import { Infer, StringFormat, ValidationContext, ValidationIssue, checkString, schema } from './validation';
+
+/**
+ * Request schemas for the invitation endpoints.
+ * The access hook resource types are inferred from these.
+ */
+
+const TARGET_VALUE_FORMATS: Record<string, StringFormat> = {
+  email: 'email',
+  phone: 'phone',
+  phoneNumber: 'phone',
+  username: 'text',
+  internal: 'id',
+};
+
+// Target values are checked against the format their target type implies
+function checkTargetValue(
+  type: string,
+  value: string,
+  field: string,
+  context: ValidationContext
+): ValidationIssue | null {
+  const message = checkString(value, TARGET_VALUE_FORMATS[type] ?? 'text', context);
+  return message ? { field, message } : null;
+}
+
+export const invitationParamsSchema = schema.object({
+  invitationId: schema.id(),
+});
+
+export const scopeParamsSchema = schema.object({
+  scopeType: schema.id(),
+  scope: schema.id(),
+});
+
+export const eventStreamQuerySchema = schema.object(
+  {
+    scopeType: schema.optional(schema.id()),
+    scope: schema.optional(schema.id()),
+    lastEventId: schema.optional(schema.id()),
+  },
+  (query) => {
+    if (query.scopeType !== undefined && query.scope === undefined) {
+      return { field: 'scope', message: 'is required when scopeType is set' };
+    }
+    if (query.scope !== undefined && query.scopeType === undefined) {
+      return { field: 'scopeType', message: 'is required when scope is set' };
+    }
+    return null;
+  }
+);
+
+export const invitationsByTargetQuerySchema = schema.object(
+  {
+    targetType: schema.oneOf(['email', 'username', 'phoneNumber'] as const),
+    targetValue: schema.string(),
+  },
+  (query, context) => checkTargetValue(query.targetType, query.targetValue, 'targetValue', context)
+);
+
+export const acceptInvitationsBodySchema = schema.object(
+  {
+    invitationIds: schema.array(schema.id(), { minItems: 1 }),
+    target: schema.optional(
+      schema.object(
+        {
+          type: schema.oneOf(['email', 'username', 'phoneNumber', 'phone'] as const),
+          value: schema.string(),
+        },
+        (target, context) => checkTargetValue(target.type, target.value, 'value', context)
+      )
+    ),
+    user: schema.optional(
+      schema.object(
+        {
+          email: schema.optional(schema.email()),
+          phone: schema.optional(schema.phone()),
+          name: schema.optional(schema.name()),
+        },
+        (user) =>
+          !user.email && !user.phone ? { field: '', message: 'must have either email or phone' } : null
+      )
+    ),
+  },
+  (body) => (!body.user && !body.target ? { field: '', message: 'must include either user or target' } : null)
+);
+
+export const syncInternalInvitationBodySchema = schema.object({
+  creatorId: schema.id(),
+  targetValue: schema.id(),
+  action: schema.oneOf(['accepted', 'declined'] as const),
+  componentId: schema.id(),
+});
+
+export const createInvitationBodySchema = schema.object({
+  widgetConfigurationId: schema.id(),
+  target: schema.object(
+    {
+      type: schema.oneOf(['email', 'phone', 'internal'] as const),
+      value: schema.string(),
+      name: schema.optional(schema.name()),
+      avatarUrl: schema.optional(schema.string()),
+    },
+    (target, context) => checkTargetValue(target.type, target.value, 'value', context)
+  ),
+  scopeId: schema.optional(schema.id()),
+  scopeType: schema.optional(schema.id()),
+  scopeName: schema.optional(schema.name()),
+  source: schema.optional(schema.string()),
+  subtype: schema.optional(schema.string()),
+  templateVariables: schema.optional(schema.record(schema.string({ minLength: 0 }))),
+  metadata: schema.optional(schema.record(schema.unknown())),
+  unfurlConfig: schema.optional(
+    schema.object({
+      title: schema.optional(schema.string()),
+      description: schema.optional(schema.string()),
+      image: schema.optional(schema.string()),
+      type: schema.optional(
+        schema.oneOf(['website', 'article', 'video', 'music', 'book', 'profile', 'product'] as const)
+      ),
+      siteName: schema.optional(schema.string()),
+    })
+  ),
+});
+
+export type InvitationParams = Infer<typeof invitationParamsSchema>;
+export type ScopeParams = Infer<typeof scopeParamsSchema>;
+export type InvitationsByTargetQuery = Infer<typeof invitationsByTargetQuerySchema>;
+export type EventStreamQuery = Infer<typeof eventStreamQuerySchema>;
+export type AcceptInvitationsBody = Infer<typeof acceptInvitationsBodySchema>;
+export type SyncInternalInvitationBody = Infer<typeof syncInternalInvitationBodySchema>;
+export type CreateInvitationBody = Infer<typeof createInvitationBodySchema>;
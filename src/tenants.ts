@@ -0,0 +1,103 @@
+import { Request } from 'express';
+import type { VortexConfig, VortexTenant } from './config';
+
+const DEFAULT_TENANT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+type TenantResolver = NonNullable<VortexConfig['resolveTenant']>;
+
+interface CachedTenant {
+  tenant: VortexTenant | null;
+  expiresAt: number;
+}
+
+// Resolutions are cached per resolveTenant hook, then per tenant ID
+const tenantCaches = new WeakMap<TenantResolver, Map<string, CachedTenant>>();
+// A request is only resolved once, even when several helpers ask for its config
+const requestTenants = new WeakMap<Request, Map<TenantResolver, Promise<VortexTenant | null>>>();
+
+/**
+ * Resolves the tenant for a request using the config's resolveTenant hook.
+ * Results are cached for tenantCacheTtlMs when getTenantId is configured.
+ */
+export function resolveRequestTenant(
+  config: VortexConfig,
+  request: Request
+): Promise<VortexTenant | null> {
+  const resolver = config.resolveTenant;
+  if (!resolver) {
+    return Promise.resolve(null);
+  }
+
+  let resolved = requestTenants.get(request);
+  if (!resolved) {
+    resolved = new Map();
+    requestTenants.set(request, resolved);
+  }
+
+  let tenant = resolved.get(resolver);
+  if (!tenant) {
+    tenant = resolveTenantCached(config, resolver, request);
+    resolved.set(resolver, tenant);
+  }
+  return tenant;
+}
+
+async function resolveTenantCached(
+  config: VortexConfig,
+  resolver: TenantResolver,
+  request: Request
+): Promise<VortexTenant | null> {
+  const tenantId = config.getTenantId ? await config.getTenantId(request) : null;
+  if (!tenantId) {
+    return resolver(request);
+  }
+
+  let cache = tenantCaches.get(resolver);
+  if (!cache) {
+    cache = new Map();
+    tenantCaches.set(resolver, cache);
+  }
+
+  const now = Date.now();
+  const cached = cache.get(tenantId);
+  if (cached && cached.expiresAt > now) {
+    return cached.tenant;
+  }
+
+  const tenant = await resolver(request);
+  cache.set(tenantId, {
+    tenant,
+    expiresAt: now + (config.tenantCacheTtlMs ?? DEFAULT_TENANT_CACHE_TTL_MS),
+  });
+  return tenant;
+}
+
+/**
+ * Drops cached tenant resolutions, e.g. after rotating a tenant's API key.
+ * Clears every tenant when no tenant ID is given.
+ */
+export function clearVortexTenantCache(
+  resolver: TenantResolver,
+  tenantId?: string
+): void {
+  if (tenantId === undefined) {
+    tenantCaches.delete(resolver);
+  } else {
+    tenantCaches.get(resolver)?.delete(tenantId);
+  }
+}
+
+/**
+ * Applies a tenant's settings on top of the base configuration.
+ * Fields the tenant leaves undefined keep their base value.
+ */
+export function applyTenant(config: VortexConfig, tenant: VortexTenant | null): VortexConfig {
+  if (!tenant) {
+    return config;
+  }
+
+  const overrides = Object.fromEntries(
+    Object.entries(tenant).filter(([, value]) => value !== undefined)
+  );
+  return { ...config, ...overrides };
+}
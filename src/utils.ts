@@ -1,20 +1,76 @@
 import { Request, Response } from 'express';
+import { getRequestVortexConfig } from './config';
+import { VortexHttpError, VortexValidationError, sendVortexError, toVortexHttpError } from './errors';
 
 export function createApiResponse(res: Response, data: unknown, status: number = 200): Response {
   return res.status(status).json(data);
 }
 
+/**
+ * Sends `{ error: message }`, the format of responses before error envelopes.
+ * Kept for custom handlers; the built-in handlers use sendErrorResponse.
+ */
 export function createErrorResponse(res: Response, message: string, status: number = 400): Response {
   return res.status(status).json({ error: message });
 }
 
+/**
+ * Sends an error response for a failure detected by a handler itself, such as
+ * a denied access check. Like thrown errors, it goes through the onError hook.
+ */
+export function sendErrorResponse(
+  res: Response,
+  message: string,
+  status: number = 400,
+  code?: string,
+  details?: unknown
+): Promise<Response> {
+  return sendHandledError(res.req, res, toVortexHttpError(new VortexHttpError(status, message, { code, details })));
+}
+
+/**
+ * Turns an error thrown by a handler into an error response, giving the
+ * configured onError hook a chance to observe or replace it.
+ */
+export async function handleVortexError(
+  req: Request,
+  res: Response,
+  error: unknown,
+  source: string
+): Promise<Response> {
+  const httpError = toVortexHttpError(error);
+  if (httpError.status >= 500) {
+    console.error(`Error in ${source}:`, error);
+  }
+  return sendHandledError(req, res, httpError);
+}
+
+async function sendHandledError(req: Request, res: Response, error: VortexHttpError): Promise<Response> {
+  let httpError = error;
+  const config = await getRequestVortexConfig(req, res).catch(() => null);
+  if (config?.onError) {
+    try {
+      httpError = (await config.onError(httpError, req, res)) ?? httpError;
+    } catch (hookError) {
+      console.error('Error in onError hook:', hookError);
+    }
+  }
+
+  if (res.headersSent) {
+    return res;
+  }
+  return sendVortexError(req, res, httpError);
+}
+
 export async function parseRequestBody(request: Request): Promise<unknown> {
   // In Express 5, the body is already parsed by the built-in middleware
   // if express.json() middleware is used
   if (request.body) {
     return request.body;
   }
-  throw new Error('Request body is empty or not parsed');
+  throw new VortexValidationError('Request body is empty or not parsed; is express.json() installed?', [
+    { field: 'body', message: 'is required' },
+  ]);
 }
 
 export function getQueryParam(request: Request, param: string): string | null {
@@ -40,6 +96,11 @@ export function validateRequiredFields(data: Record<string, unknown>, fields: st
   }
 }
 
+/**
+ * @deprecated Rewrites data (e.g. `O'Brien` becomes `OBrien`). Validate input
+ * with the validators in this package and escape output where it is rendered
+ * with escapeHtml() instead.
+ */
 export function sanitizeInput(input: string | null): string | null {
   if (!input) return null;
 
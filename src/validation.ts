@@ -0,0 +1,297 @@
+import { Request } from 'express';
+import { VortexValidationError } from './errors';
+import {
+  ValidationLimits,
+  DEFAULT_VALIDATION_LIMITS,
+  isValidEmail,
+  isValidE164Phone,
+  isValidId,
+  isValidText,
+} from './validators';
+
+/**
+ * A single failing field, e.g. `{ field: 'body.user.email', message: 'must be a string' }`
+ */
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * Settings shared by all schemas while validating one request
+ */
+export interface ValidationContext {
+  limits: ValidationLimits;
+}
+
+/**
+ * A declarative schema that validates unknown input into a typed value
+ */
+export interface Schema<T> {
+  parse(value: unknown, field: string, context: ValidationContext): ParseResult<T>;
+}
+
+/**
+ * Formats a string field can be checked against
+ */
+export type StringFormat = 'id' | 'email' | 'phone' | 'text';
+
+const FORMATS: Record<StringFormat, { test: (value: string) => boolean; message: string }> = {
+  id: { test: isValidId, message: 'must not contain control characters or surrounding whitespace' },
+  email: { test: isValidEmail, message: 'must be a valid email address' },
+  phone: { test: isValidE164Phone, message: 'must be an E.164 phone number, e.g. +14155550123' },
+  text: { test: isValidText, message: 'must not contain control characters' },
+};
+
+const FORMAT_LIMITS: Record<StringFormat, keyof ValidationLimits> = {
+  id: 'id',
+  email: 'email',
+  phone: 'phone',
+  text: 'text',
+};
+
+/**
+ * Checks a string against a format and its configured length limit.
+ * Returns the failure message, or null when the value is valid.
+ */
+export function checkString(
+  value: string,
+  format: StringFormat,
+  context: ValidationContext,
+  limit: keyof ValidationLimits = FORMAT_LIMITS[format]
+): string | null {
+  const maxLength = context.limits[limit];
+  if (value.length > maxLength) {
+    return `must be at most ${maxLength} characters`;
+  }
+  return FORMATS[format].test(value) ? null : FORMATS[format].message;
+}
+
+interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional: true;
+}
+
+/** The TypeScript type produced by a schema */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never;
+}[keyof S];
+type InferShape<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined>;
+} extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never;
+
+function fail<T>(field: string, message: string): ParseResult<T> {
+  return { ok: false, issues: [{ field, message }] };
+}
+
+function string(
+  options: { format?: StringFormat; limit?: keyof ValidationLimits; minLength?: number } = {}
+): Schema<string> {
+  const format = options.format ?? 'text';
+  const minLength = options.minLength ?? 1;
+  return {
+    parse(value, field, context) {
+      if (value === undefined || value === null || (value === '' && minLength > 0)) {
+        return fail(field, 'is required');
+      }
+      if (typeof value !== 'string') {
+        return fail(field, 'must be a string');
+      }
+      if (value.length < minLength) {
+        return fail(field, `must be at least ${minLength} characters`);
+      }
+      const message = checkString(value, format, context, options.limit);
+      return message ? fail(field, message) : { ok: true, value };
+    },
+  };
+}
+
+function oneOf<const T extends readonly string[]>(values: T): Schema<T[number]> {
+  return {
+    parse(value, field) {
+      if (value === undefined || value === null || value === '') {
+        return fail(field, 'is required');
+      }
+      if (typeof value !== 'string' || !values.includes(value)) {
+        return fail(field, `must be one of: ${values.join(', ')}`);
+      }
+      return { ok: true, value: value as T[number] };
+    },
+  };
+}
+
+function array<T>(item: Schema<T>, options: { minItems?: number } = {}): Schema<T[]> {
+  return {
+    parse(value, field, context) {
+      if (!Array.isArray(value)) {
+        return fail(field, 'must be an array');
+      }
+      if (options.minItems !== undefined && value.length < options.minItems) {
+        return fail(field, options.minItems === 1 ? 'must not be empty' : `must have at least ${options.minItems} items`);
+      }
+
+      const issues: ValidationIssue[] = [];
+      const items: T[] = [];
+      value.forEach((element, index) => {
+        const result = item.parse(element, `${field}[${index}]`, context);
+        if (result.ok) {
+          items.push(result.value);
+        } else {
+          issues.push(...result.issues);
+        }
+      });
+      return issues.length > 0 ? { ok: false, issues } : { ok: true, value: items };
+    },
+  };
+}
+
+function object<S extends Shape>(
+  shape: S,
+  refine?: (value: InferShape<S>, context: ValidationContext) => ValidationIssue | null
+): Schema<InferShape<S>> {
+  return {
+    parse(value, field, context) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(field, 'must be an object');
+      }
+
+      const issues: ValidationIssue[] = [];
+      const parsed: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const result = schema.parse(
+          (value as Record<string, unknown>)[key],
+          field ? `${field}.${key}` : key,
+          context
+        );
+        if (!result.ok) {
+          issues.push(...result.issues);
+        } else if (result.value !== undefined) {
+          parsed[key] = result.value;
+        }
+      }
+      if (issues.length > 0) {
+        return { ok: false, issues };
+      }
+
+      const issue = refine?.(parsed as InferShape<S>, context);
+      if (issue) {
+        return fail(field ? `${field}${issue.field ? `.${issue.field}` : ''}` : issue.field, issue.message);
+      }
+      return { ok: true, value: parsed as InferShape<S> };
+    },
+  };
+}
+
+function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return {
+    parse(input, field, context) {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return fail(field, 'must be an object');
+      }
+
+      const issues: ValidationIssue[] = [];
+      const parsed: Record<string, T> = {};
+      for (const [key, element] of Object.entries(input)) {
+        const result = value.parse(element, `${field}.${key}`, context);
+        if (result.ok) {
+          parsed[key] = result.value;
+        } else {
+          issues.push(...result.issues);
+        }
+      }
+      return issues.length > 0 ? { ok: false, issues } : { ok: true, value: parsed };
+    },
+  };
+}
+
+// Accepts any value as-is, e.g. for metadata passed through to the Vortex API
+function unknown(): Schema<unknown> {
+  return {
+    parse(value) {
+      return { ok: true, value };
+    },
+  };
+}
+
+function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    isOptional: true,
+    parse(value, field, context) {
+      if (value === undefined || value === null) {
+        return { ok: true, value: undefined };
+      }
+      return schema.parse(value, field, context);
+    },
+  };
+}
+
+const id = () => string({ format: 'id' });
+const email = () => string({ format: 'email' });
+const phone = () => string({ format: 'phone' });
+const name = () => string({ format: 'text', limit: 'name' });
+
+/**
+ * Schema builders for describing request params, query and body
+ */
+export const schema = { string, id, email, phone, name, oneOf, array, object, record, unknown, optional };
+
+/**
+ * Schemas for the parts of a request a route reads
+ */
+export interface RequestSchemas<P, Q, B> {
+  params?: Schema<P>;
+  query?: Schema<Q>;
+  body?: Schema<B>;
+}
+
+// Query strings may repeat a parameter; like getQueryParam, use the first value
+function normalizeQuery(query: Request['query']): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(query ?? {}).map(([key, value]) => [key, Array.isArray(value) ? value[0] : value])
+  );
+}
+
+/**
+ * Validates a request against its route schemas, collecting every failing
+ * field. Throws a VortexValidationError listing them when any fail.
+ */
+export function validateRequest<P = undefined, Q = undefined, B = undefined>(
+  req: Request,
+  schemas: RequestSchemas<P, Q, B>,
+  limits: Partial<ValidationLimits> = {}
+): { params: P; query: Q; body: B } {
+  const context: ValidationContext = { limits: { ...DEFAULT_VALIDATION_LIMITS, ...limits } };
+  const issues: ValidationIssue[] = [];
+  const parsed: Record<string, unknown> = {};
+
+  const parts = [
+    ['params', schemas.params, req.params ?? {}],
+    ['query', schemas.query, normalizeQuery(req.query)],
+    ['body', schemas.body, req.body],
+  ] as const;
+  for (const [part, partSchema, value] of parts) {
+    if (!partSchema) continue;
+    const result = (partSchema as Schema<unknown>).parse(value, part, context);
+    if (result.ok) {
+      parsed[part] = result.value;
+    } else {
+      issues.push(...result.issues);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new VortexValidationError(
+      `Invalid request: ${issues.map((issue) => `${issue.field} ${issue.message}`).join('; ')}`,
+      issues
+    );
+  }
+  return parsed as { params: P; query: Q; body: B };
+}
@@ -0,0 +1,68 @@
+/**
+ * Field validators. These reject invalid input rather than rewriting it, so
+ * values like `O'Brien` reach the Vortex API unchanged. Escape values where
+ * they are rendered (see escapeHtml), not when they are received.
+ */
+
+/**
+ * Maximum lengths per kind of field, configurable via VortexConfig.validationLimits
+ */
+export interface ValidationLimits {
+  /** Invitation, scope, creator and component IDs */
+  id: number;
+  email: number;
+  phone: number;
+  /** Display names */
+  name: number;
+  /** Free-form values such as usernames and internal target values */
+  text: number;
+}
+
+export const DEFAULT_VALIDATION_LIMITS: ValidationLimits = {
+  id: 256,
+  email: 254,
+  phone: 16,
+  name: 256,
+  text: 1000,
+};
+
+// Deliberately permissive: one @, no whitespace, a dot in the domain.
+// Apostrophes, plus signs and other RFC 5322 local-part characters are allowed.
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@.]+$/;
+const E164_PATTERN = /^\+[1-9]\d{1,14}$/;
+const CONTROL_CHARACTERS = /\p{Cc}/u;
+
+export function isValidEmail(value: string): boolean {
+  return EMAIL_PATTERN.test(value);
+}
+
+/** Phone numbers must be in E.164 format, e.g. +14155550123 */
+export function isValidE164Phone(value: string): boolean {
+  return E164_PATTERN.test(value);
+}
+
+/** IDs may contain any printable characters but no surrounding whitespace */
+export function isValidId(value: string): boolean {
+  return isValidText(value) && value.trim() === value;
+}
+
+/** Text must not contain control characters such as newlines or NUL */
+export function isValidText(value: string): boolean {
+  return !CONTROL_CHARACTERS.test(value);
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escapes a value for inclusion in HTML. Use this when rendering invitation
+ * data (names, emails) in server-side templates.
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
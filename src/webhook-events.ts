@@ -0,0 +1,172 @@
+import { EventEmitter } from 'node:events';
+import {
+  VortexAnalyticsEvent,
+  VortexEvent,
+  VortexWebhookEvent,
+  WebhookEventType,
+  WebhookHandlers,
+  isWebhookEvent,
+} from '@teamvortexsoftware/vortex-node-22-sdk';
+
+/**
+ * Events emitted by VortexEventBus: webhook events under their type, and
+ * analytics events under `analytics`
+ */
+export type VortexEventMap = Record<WebhookEventType, [event: VortexWebhookEvent]> &
+  Record<'analytics', [event: VortexAnalyticsEvent]>;
+
+export interface VortexEventStreamOptions {
+  /** Ends the stream when aborted */
+  signal?: AbortSignal;
+  /** Events kept for a slow consumer before the oldest are dropped (default 1000) */
+  bufferSize?: number;
+}
+
+/**
+ * Settings for the `GET /events` route, which streams invitation events to
+ * browsers with Server-Sent Events
+ */
+export interface VortexEventsOptions {
+  /** The bus webhook events are published to, e.g. with `createVortexWebhookHandler(webhooks, bus.handlers())` */
+  bus: VortexEventBus;
+  /** How often a comment is sent to keep idle connections open, in milliseconds (default 15 seconds) */
+  heartbeatMs?: number;
+  /** Recent events kept for clients resuming with Last-Event-ID (default 100) */
+  historySize?: number;
+}
+
+interface StreamSubscriber {
+  matches(name: string): boolean;
+  push(event: VortexEvent): void;
+}
+
+function getEventName(event: VortexEvent): string {
+  return isWebhookEvent(event) ? event.type : 'analytics';
+}
+
+// `*` matches any characters, so 'invitation.*' matches 'invitation.email.delivered'
+function createMatcher(pattern: string): (name: string) => boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  const regex = new RegExp(`^${source}$`);
+  return (name) => regex.test(name);
+}
+
+/**
+ * Delivers Vortex webhook events to subscribers in the process, as an
+ * EventEmitter and as async iterable streams, so modules can subscribe
+ * independently instead of sharing one onEvent handler.
+ *
+ * Listeners may be async. A delivery fails (and Vortex retries it) if any
+ * listener throws, after every listener has run, so listeners should be
+ * safe to run again for the same event.
+ *
+ * @example
+ * ```typescript
+ * export const vortexEvents = new VortexEventBus();
+ *
+ * app.post('/webhooks/vortex', createVortexWebhookHandler(webhooks, vortexEvents.handlers()));
+ *
+ * vortexEvents.on('invitation.accepted', async (event) => {
+ *   await provisionAccount(event.data.targetEmail);
+ * });
+ *
+ * for await (const event of vortexEvents.stream('invitation.*')) {
+ *   auditLog.write(event);
+ * }
+ * ```
+ */
+export class VortexEventBus extends EventEmitter<VortexEventMap> {
+  private readonly streams = new Set<StreamSubscriber>();
+
+  /**
+   * Handler configuration for createVortexWebhookHandler() or
+   * createVortexWebhookWorker() that publishes every event to the bus
+   */
+  handlers(options: Pick<WebhookHandlers, 'onError'> = {}): WebhookHandlers {
+    return {
+      ...options,
+      onEvent: (event) => this.publish(event),
+      onAnalyticsEvent: (event) => this.publish(event),
+    };
+  }
+
+  /**
+   * Delivers an event to its listeners and matching streams
+   */
+  async publish(event: VortexEvent): Promise<void> {
+    const name = getEventName(event);
+    for (const stream of this.streams) {
+      if (stream.matches(name)) {
+        stream.push(event);
+      }
+    }
+
+    // rawListeners keeps `once` wrappers, so calling them also removes the listener
+    const listeners = this.rawListeners(name as keyof VortexEventMap) as ((event: VortexEvent) => unknown)[];
+    const results = await Promise.allSettled(listeners.map(async (listener) => listener.call(this, event)));
+    const errors = results.flatMap((result) => (result.status === 'rejected' ? [result.reason] : []));
+    if (errors.length === 1) {
+      throw errors[0];
+    }
+    if (errors.length > 1) {
+      throw new AggregateError(errors, `${errors.length} listeners failed for ${name} event ${event.id}`);
+    }
+  }
+
+  /**
+   * Returns an async iterator of events whose name matches the pattern, e.g.
+   * 'invitation.*' or '*'. Events are buffered from the moment this is
+   * called; leaving the `for await` loop or aborting the signal unsubscribes.
+   */
+  stream(pattern: string = '*', options: VortexEventStreamOptions = {}): AsyncIterableIterator<VortexEvent> {
+    const bufferSize = options.bufferSize ?? 1000;
+    const buffer: VortexEvent[] = [];
+    let wake: (() => void) | undefined;
+    let closed = false;
+
+    const subscriber: StreamSubscriber = {
+      matches: createMatcher(pattern),
+      push(event) {
+        buffer.push(event);
+        if (buffer.length > bufferSize) {
+          buffer.shift();
+        }
+        wake?.();
+      },
+    };
+    const close = () => {
+      closed = true;
+      this.streams.delete(subscriber);
+      options.signal?.removeEventListener('abort', close);
+      wake?.();
+    };
+
+    if (options.signal?.aborted) {
+      closed = true;
+    } else {
+      this.streams.add(subscriber);
+      options.signal?.addEventListener('abort', close, { once: true });
+    }
+
+    async function* iterate(): AsyncGenerator<VortexEvent> {
+      try {
+        while (true) {
+          while (buffer.length > 0) {
+            yield buffer.shift()!;
+          }
+          if (closed) return;
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+          });
+          wake = undefined;
+        }
+      } finally {
+        close();
+      }
+    }
+    return iterate();
+  }
+}
@@ -0,0 +1,292 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { VortexEvent, VortexWebhooks, WebhookHandlers } from '@teamvortexsoftware/vortex-node-22-sdk';
+
+/**
+ * A webhook event waiting to be handled
+ */
+export interface WebhookJob {
+  /** The event ID */
+  id: string;
+  event: VortexEvent;
+  /** How many times the job was claimed, including the current attempt */
+  attempts: number;
+  /** When the job is next due, in epoch milliseconds */
+  runAt: number;
+  lastError?: string;
+}
+
+/**
+ * Storage for webhook events that are handled after the webhook was
+ * acknowledged. Implement this with a shared store (e.g. a SQL table or a
+ * Redis sorted set) to run workers in several processes.
+ */
+export interface WebhookQueue {
+  /** Adds an event. Events that are already queued are ignored. */
+  enqueue(event: VortexEvent): Promise<void>;
+  /**
+   * Takes the next due job and increments its attempts. The job is hidden for
+   * leaseMs, after which it is due again in case the worker died. Must be atomic.
+   */
+  claim(leaseMs: number): Promise<WebhookJob | undefined>;
+  /** Makes a claimed job due again at runAt */
+  retry(jobId: string, runAt: number, error: string): Promise<void>;
+  /** Removes a job that was handled or dead-lettered */
+  remove(jobId: string): Promise<void>;
+}
+
+function addJob(jobs: Map<string, WebhookJob>, event: VortexEvent): boolean {
+  if (jobs.has(event.id)) {
+    return false;
+  }
+  jobs.set(event.id, { id: event.id, event, attempts: 0, runAt: Date.now() });
+  return true;
+}
+
+function claimJob(jobs: Map<string, WebhookJob>, leaseMs: number): WebhookJob | undefined {
+  const now = Date.now();
+  let next: WebhookJob | undefined;
+  for (const job of jobs.values()) {
+    if (job.runAt <= now && (!next || job.runAt < next.runAt)) {
+      next = job;
+    }
+  }
+  if (!next) {
+    return undefined;
+  }
+  next.attempts += 1;
+  next.runAt = now + leaseMs;
+  return { ...next };
+}
+
+function retryJob(jobs: Map<string, WebhookJob>, jobId: string, runAt: number, error: string): void {
+  const job = jobs.get(jobId);
+  if (job) {
+    job.runAt = runAt;
+    job.lastError = error;
+  }
+}
+
+/**
+ * Keeps queued webhook events in process memory. Events are lost when the
+ * process exits; use FileWebhookQueue or a database-backed queue to keep them.
+ */
+export class MemoryWebhookQueue implements WebhookQueue {
+  private readonly jobs = new Map<string, WebhookJob>();
+
+  async enqueue(event: VortexEvent): Promise<void> {
+    addJob(this.jobs, event);
+  }
+
+  async claim(leaseMs: number): Promise<WebhookJob | undefined> {
+    return claimJob(this.jobs, leaseMs);
+  }
+
+  async retry(jobId: string, runAt: number, error: string): Promise<void> {
+    retryJob(this.jobs, jobId, runAt, error);
+  }
+
+  async remove(jobId: string): Promise<void> {
+    this.jobs.delete(jobId);
+  }
+}
+
+/**
+ * Keeps queued webhook events in a JSON file, so they survive restarts.
+ * Meant for a single process; the file is rewritten on every change. This is
+ * the only durable queue included; for SQLite or another database, implement
+ * WebhookQueue.
+ */
+export class FileWebhookQueue implements WebhookQueue {
+  private jobs?: Map<string, WebhookJob>;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  enqueue(event: VortexEvent): Promise<void> {
+    return this.update((jobs) => addJob(jobs, event)).then(() => undefined);
+  }
+
+  claim(leaseMs: number): Promise<WebhookJob | undefined> {
+    return this.update((jobs) => claimJob(jobs, leaseMs));
+  }
+
+  retry(jobId: string, runAt: number, error: string): Promise<void> {
+    return this.update((jobs) => retryJob(jobs, jobId, runAt, error));
+  }
+
+  remove(jobId: string): Promise<void> {
+    return this.update((jobs) => {
+      jobs.delete(jobId);
+    });
+  }
+
+  // Changes run one at a time on a copy of the jobs, which replaces them
+  // only once the whole file was written
+  private update<T>(change: (jobs: Map<string, WebhookJob>) => T): Promise<T> {
+    const result = this.lock.then(async () => {
+      const current = await this.load();
+      const jobs = new Map([...current].map(([id, job]) => [id, { ...job }]));
+      const value = change(jobs);
+      await this.save(jobs);
+      this.jobs = jobs;
+      return value;
+    });
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<Map<string, WebhookJob>> {
+    if (this.jobs) {
+      return this.jobs;
+    }
+    let stored: WebhookJob[] = [];
+    try {
+      stored = JSON.parse(await readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    this.jobs = new Map(stored.map((job) => [job.id, job]));
+    return this.jobs;
+  }
+
+  private async save(jobs: Map<string, WebhookJob>): Promise<void> {
+    // Write a temporary file and rename it, so a crash never leaves a partial file
+    const tempPath = `${this.filePath}.tmp`;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify([...jobs.values()]));
+    await rename(tempPath, this.filePath);
+  }
+}
+
+export interface VortexWebhookWorkerOptions {
+  queue: WebhookQueue;
+  /** Attempts before an event is dead-lettered (default 5) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled for each further attempt (default 1 second) */
+  initialDelayMs?: number;
+  /** Longest delay between attempts (default 5 minutes) */
+  maxDelayMs?: number;
+  /** How often an idle worker checks the queue (default 1 second) */
+  pollIntervalMs?: number;
+  /** How long a claimed job is hidden from other workers (default 5 minutes) */
+  leaseMs?: number;
+  /**
+   * Called with events that failed maxAttempts times, before they are
+   * removed from the queue. If it throws, the event stays queued.
+   */
+  onDeadLetter?: (job: WebhookJob, error: Error) => void | Promise<void>;
+}
+
+export interface VortexWebhookWorker {
+  /** Starts handling queued events in the background */
+  start(): void;
+  /** Stops the worker, waiting for the event being handled */
+  stop(): Promise<void>;
+  /** Handles the next due event. Returns false when none was due. */
+  processNext(): Promise<boolean>;
+}
+
+/**
+ * Create a worker that runs webhook handlers for events queued by
+ * createVortexWebhookHandler() with the `queue` option. Failed events are
+ * retried with exponential backoff and dead-lettered after maxAttempts.
+ *
+ * @example
+ * ```typescript
+ * const queue = new FileWebhookQueue('./data/vortex-webhooks.json');
+ *
+ * app.post('/webhooks/vortex', createVortexWebhookHandler(webhooks, {}, { queue }));
+ *
+ * const worker = createVortexWebhookWorker(webhooks, handlers, {
+ *   queue,
+ *   onDeadLetter: async (job, error) => {
+ *     await alerts.notify(`Webhook ${job.event.type} failed: ${error.message}`);
+ *   },
+ * });
+ * worker.start();
+ * ```
+ */
+export function createVortexWebhookWorker(
+  webhooks: VortexWebhooks,
+  handlers: WebhookHandlers,
+  options: VortexWebhookWorkerOptions,
+): VortexWebhookWorker {
+  const {
+    queue,
+    maxAttempts = 5,
+    initialDelayMs = 1000,
+    maxDelayMs = 5 * 60 * 1000,
+    pollIntervalMs = 1000,
+    leaseMs = 5 * 60 * 1000,
+  } = options;
+
+  let running = false;
+  let loop: Promise<void> | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  let wake: (() => void) | undefined;
+
+  async function processNext(): Promise<boolean> {
+    const job = await queue.claim(leaseMs);
+    if (!job) {
+      return false;
+    }
+
+    try {
+      await webhooks.handleEvent(job.event, handlers);
+      await queue.remove(job.id);
+      return true;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      if (job.attempts < maxAttempts) {
+        const delay = Math.min(maxDelayMs, initialDelayMs * 2 ** (job.attempts - 1));
+        await queue.retry(job.id, Date.now() + delay, error.message);
+        return true;
+      }
+
+      try {
+        await options.onDeadLetter?.(job, error);
+      } catch (deadLetterError) {
+        console.error('Vortex webhook dead-letter hook failed:', deadLetterError);
+        await queue.retry(job.id, Date.now() + maxDelayMs, error.message);
+        return true;
+      }
+      await queue.remove(job.id);
+      return true;
+    }
+  }
+
+  async function run(): Promise<void> {
+    while (running) {
+      let processed = false;
+      try {
+        processed = await processNext();
+      } catch (error) {
+        console.error('Vortex webhook worker error:', error);
+      }
+      if (!processed && running) {
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+          timer = setTimeout(resolve, pollIntervalMs);
+        });
+      }
+    }
+  }
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      loop = run();
+    },
+    async stop() {
+      running = false;
+      clearTimeout(timer);
+      wake?.();
+      await loop;
+    },
+    processNext,
+  };
+}
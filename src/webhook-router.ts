@@ -0,0 +1,115 @@
+import type {
+  VortexWebhookEvent,
+  WebhookEventType,
+  WebhookHandlers,
+} from '@teamvortexsoftware/vortex-node-22-sdk';
+import { VortexValidationError } from './errors';
+import { Infer, Schema, ValidationIssue } from './validation';
+import { DEFAULT_VALIDATION_LIMITS } from './validators';
+
+/**
+ * A webhook event whose data passed the schema registered for its type
+ */
+export type TypedWebhookEvent<T extends WebhookEventType, D> = Omit<VortexWebhookEvent, 'type' | 'data'> & {
+  type: T;
+  data: D;
+};
+
+/**
+ * An event no route handled: its type has no route, or its data failed the
+ * route's schema
+ */
+export type UnhandledWebhookEvent =
+  | { reason: 'unknown'; event: VortexWebhookEvent }
+  | { reason: 'invalid'; event: VortexWebhookEvent; issues: ValidationIssue[] };
+
+/**
+ * Builder that routes webhook events to handlers by type, validating each
+ * event's data first. `E` is the union of the routed event types.
+ */
+export interface VortexWebhookRouter<E = never> {
+  /** Handles events of a type whose data matches the schema */
+  on<T extends WebhookEventType, S extends Schema<unknown>>(
+    type: T,
+    schema: S,
+    handler: (event: TypedWebhookEvent<T, Infer<S>>) => void | Promise<void>,
+  ): VortexWebhookRouter<E | TypedWebhookEvent<T, Infer<S>>>;
+  /**
+   * Handles events without a route or with invalid data. Without it, unknown
+   * events are ignored and invalid events fail with a VortexValidationError.
+   */
+  onUnhandled(handler: (unhandled: UnhandledWebhookEvent) => void | Promise<void>): VortexWebhookRouter<E>;
+  /** Routes one event */
+  dispatch(event: VortexWebhookEvent): Promise<void>;
+  /** Handler configuration for createVortexWebhookHandler() or createVortexWebhookWorker() */
+  handlers(options?: Pick<WebhookHandlers, 'onAnalyticsEvent' | 'onError'>): WebhookHandlers;
+}
+
+/** The union of event types routed by a router */
+export type WebhookRouterEvent<R> = R extends VortexWebhookRouter<infer E> ? E : never;
+
+type RouteHandler = (event: TypedWebhookEvent<WebhookEventType, unknown>) => void | Promise<void>;
+
+/**
+ * Create a typed webhook event router.
+ *
+ * @example
+ * ```typescript
+ * import { schema, vortexWebhookRouter, WebhookRouterEvent } from '@teamvortexsoftware/vortex-express-5-sdk';
+ *
+ * const router = vortexWebhookRouter()
+ *   .on('invitation.accepted', schema.object({ targetEmail: schema.email() }), async (event) => {
+ *     await db.activateUser(event.data.targetEmail); // typed as string
+ *   })
+ *   .onUnhandled(({ reason, event }) => logger.warn(`Unhandled ${event.type} webhook (${reason})`));
+ *
+ * type HandledEvent = WebhookRouterEvent<typeof router>;
+ *
+ * app.post('/webhooks/vortex', createVortexWebhookHandler(webhooks, router.handlers()));
+ * ```
+ */
+export function vortexWebhookRouter(): VortexWebhookRouter {
+  const routes = new Map<string, { schema: Schema<unknown>; handler: RouteHandler }>();
+  let unhandled: ((unhandled: UnhandledWebhookEvent) => void | Promise<void>) | undefined;
+
+  const router: VortexWebhookRouter<unknown> = {
+    on(type, schema, handler) {
+      if (routes.has(type)) {
+        throw new Error(`A webhook route for "${type}" is already registered`);
+      }
+      routes.set(type, { schema, handler: handler as RouteHandler });
+      return router;
+    },
+
+    onUnhandled(handler) {
+      unhandled = handler;
+      return router;
+    },
+
+    async dispatch(event) {
+      const route = routes.get(event.type);
+      if (!route) {
+        await unhandled?.({ reason: 'unknown', event });
+        return;
+      }
+
+      const result = route.schema.parse(event.data, 'data', { limits: DEFAULT_VALIDATION_LIMITS });
+      if (!result.ok) {
+        if (!unhandled) {
+          throw new VortexValidationError(
+            `Invalid ${event.type} webhook: ${result.issues.map((issue) => `${issue.field} ${issue.message}`).join('; ')}`,
+            result.issues,
+          );
+        }
+        await unhandled({ reason: 'invalid', event, issues: result.issues });
+        return;
+      }
+      await route.handler({ ...event, data: result.value });
+    },
+
+    handlers(options = {}) {
+      return { ...options, onEvent: (event) => router.dispatch(event) };
+    },
+  };
+  return router as VortexWebhookRouter;
+}